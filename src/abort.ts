@@ -0,0 +1,160 @@
+import { EventEmitter } from "events";
+import { AbortError, TimeoutError } from "./errors";
+
+/**
+ * Minimal interface of `AbortSignal` used by the library
+ * (standard `AbortSignal` satisfies it).
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  addEventListener(type: "abort", listener: () => void): void;
+  removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/**
+ * Represents abort signal with its own controller.
+ *
+ * @remarks
+ * `AbortController` is not available in NodeJS before v15,
+ * so signals are linked using this class.
+ */
+export class Aborter implements AbortSignalLike {
+  aborted: boolean;
+
+  /**
+   * Error operations are rejected with after abort.
+   */
+  reason: Error | null;
+
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.aborted = false;
+    this.reason = null;
+    this.emitter = new EventEmitter();
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Aborts all operations listening the signal.
+   *
+   * @param reason - error operations are rejected with
+   */
+  abort(reason: Error = new AbortError("Aborted")): void {
+    if (this.aborted) {
+      return;
+    }
+    this.aborted = true;
+    this.reason = reason;
+    this.emitter.emit("abort");
+    this.emitter.removeAllListeners();
+  }
+
+  addEventListener(type: "abort", listener: () => void): void {
+    this.emitter.on(type, listener);
+  }
+
+  removeEventListener(type: "abort", listener: () => void): void {
+    this.emitter.removeListener(type, listener);
+  }
+}
+
+/**
+ * Returns error aborted operation must be rejected with.
+ *
+ * @param signal - aborted signal
+ * @returns abort reason
+ */
+export function abortReason(signal: AbortSignalLike): Error {
+  if (signal instanceof Aborter && signal.reason) {
+    return signal.reason;
+  }
+  return new AbortError("Aborted");
+}
+
+/**
+ * Throws abort reason if signal is aborted.
+ *
+ * @param signal - signal to check
+ */
+export function throwIfAborted(signal?: AbortSignalLike): void {
+  if (signal && signal.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Returns signal which is aborted when any of the given signals is aborted
+ * or the deadline is reached.
+ *
+ * @param signals - signals to link
+ * @param deadline - absolute deadline (time in milliseconds or `Date`)
+ * @returns linked signal and function which removes listeners and timers
+ *    (must be called when operation is finished)
+ */
+export function linkSignals(
+  signals: (AbortSignalLike | undefined)[],
+  deadline?: number | Date,
+): { signal: Aborter; dispose: () => void } {
+  const linked = new Aborter();
+  const disposers: (() => void)[] = [];
+
+  for (const signal of signals) {
+    if (!signal) {
+      continue;
+    }
+    if (signal.aborted) {
+      linked.abort(abortReason(signal));
+      break;
+    }
+    const onAbort = (): void => linked.abort(abortReason(signal));
+    signal.addEventListener("abort", onAbort);
+    disposers.push(() => signal.removeEventListener("abort", onAbort));
+  }
+
+  if (deadline !== undefined && !linked.aborted) {
+    const timer = setTimeout(
+      () => linked.abort(new TimeoutError("Deadline exceeded")),
+      Math.max(0, Number(deadline) - Date.now()),
+    );
+    disposers.push(() => clearTimeout(timer));
+  }
+
+  return {
+    signal: linked,
+    dispose: () => disposers.forEach((dispose) => dispose()),
+  };
+}
+
+/**
+ * Returns promise which is rejected as soon as signal is aborted.
+ *
+ * @param promise - promise to wrap
+ * @param signal - abort signal
+ * @returns `promise` result or abort reason
+ *
+ * @remarks
+ * Wrapped operation itself keeps running, only its result is ignored.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignalLike,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    const onAbort = (): void => reject(abortReason(signal));
+    signal.addEventListener("abort", onAbort);
+
+    promise
+      .finally(() => signal.removeEventListener("abort", onAbort))
+      .then(resolve, reject);
+  });
+}
@@ -0,0 +1,254 @@
+import { DeviceError } from "./errors";
+import { abortable, AbortSignalLike } from "./abort";
+
+export type BatchOptions = {
+  /**
+   * Max number of properties in one request (learned size is used by default).
+   */
+  chunkSize?: number;
+
+  /**
+   * Time in milliseconds during which concurrent reads are coalesced
+   * into one request (0 disables coalescing).
+   */
+  window?: number;
+};
+
+/**
+ * Values of properties by name (`null` for properties device returned
+ * as `null` or didn't return at all).
+ */
+export type PropertyValues = Record<string, unknown>;
+
+type FetchFunc<FetchOptions> = (
+  props: string[],
+  options?: FetchOptions,
+) => Promise<unknown[]>;
+
+type Batch = {
+  props: Set<string>;
+  chunkSize: number;
+  promise: Promise<PropertyValues>;
+};
+
+class PropertyBatcher<FetchOptions = unknown> {
+  static DEFAULT_CHUNK_SIZE = 15;
+  static DEFAULT_WINDOW = 10;
+
+  /**
+   * Chunk sizes learned by key (device model or identifier).
+   */
+  private static chunkSizes = new Map<string, number>();
+
+  private fetch: FetchFunc<FetchOptions>;
+  private key: string;
+  private pending: Batch | null;
+
+  /**
+   * Represents reader of device properties which splits long property lists
+   * into chunks and coalesces concurrent reads.
+   *
+   * @param fetch - function which returns values of the given properties
+   *    in the same order (e.g. calls `get_prop`)
+   * @param key - key of the learned chunk size (devices of the same model
+   *    share the limit)
+   *
+   * @remarks
+   * If device returns less values than requested or fails a chunk of
+   * several properties, the chunk is split and the smaller size is
+   * remembered for the `key`.
+   */
+  constructor(fetch: FetchFunc<FetchOptions>, key: string) {
+    this.fetch = fetch;
+    this.key = key;
+    this.pending = null;
+  }
+
+  /**
+   * Changes key of the learned chunk size (e.g. when device model
+   * becomes known).
+   *
+   * @param key - device model or identifier
+   *
+   * @remarks
+   * Chunk size learned for the old key is remembered for the new one.
+   */
+  setKey(key: string): void {
+    const learned = PropertyBatcher.chunkSizes.get(this.key);
+    this.key = key;
+    if (learned !== undefined) {
+      this.learn(learned);
+    }
+  }
+
+  /**
+   * Returns chunk size learned for the key.
+   *
+   * @param key - device model or identifier
+   * @returns learned chunk size or `undefined`
+   */
+  static learnedChunkSize(key: string): number | undefined {
+    return PropertyBatcher.chunkSizes.get(key);
+  }
+
+  /**
+   * Returns values of properties.
+   *
+   * @param props - property names
+   * @param options - batch options
+   * @param options.chunkSize - max number of properties in one request
+   * @param options.window - coalescing window in milliseconds
+   * @param fetchOptions - options passed to `fetch` (options of the first
+   *    read are used for coalesced reads)
+   * @param signal - abort signal (stops waiting only, coalesced request
+   *    is not aborted)
+   * @returns values of properties by name
+   */
+  async read(
+    props: string[],
+    options?: BatchOptions,
+    fetchOptions?: FetchOptions,
+    signal?: AbortSignalLike,
+  ): Promise<PropertyValues> {
+    const window = options?.window ?? PropertyBatcher.DEFAULT_WINDOW;
+    const chunkSize =
+      options?.chunkSize ||
+      PropertyBatcher.chunkSizes.get(this.key) ||
+      PropertyBatcher.DEFAULT_CHUNK_SIZE;
+
+    if (window <= 0) {
+      return abortable(
+        this.readAll([...new Set(props)], chunkSize, fetchOptions),
+        signal,
+      );
+    }
+
+    if (!this.pending || this.pending.chunkSize !== chunkSize) {
+      this.pending = this.schedule(chunkSize, window, fetchOptions);
+    }
+
+    props.forEach((prop) => this.pending?.props.add(prop));
+
+    const values = await abortable(this.pending.promise, signal);
+    const result: PropertyValues = {};
+    props.forEach((prop) => {
+      result[prop] = values[prop];
+    });
+    return result;
+  }
+
+  /**
+   * Creates batch which is read after the window.
+   *
+   * @param chunkSize - max number of properties in one request
+   * @param window - coalescing window in milliseconds
+   * @param fetchOptions - options passed to `fetch`
+   * @returns batch
+   */
+  private schedule(
+    chunkSize: number,
+    window: number,
+    fetchOptions?: FetchOptions,
+  ): Batch {
+    const props = new Set<string>();
+
+    const promise = new Promise<void>((resolve) =>
+      setTimeout(resolve, window),
+    ).then(() => {
+      if (this.pending?.promise === promise) {
+        this.pending = null;
+      }
+      return this.readAll([...props], chunkSize, fetchOptions);
+    });
+
+    return { props, chunkSize, promise };
+  }
+
+  /**
+   * Reads properties chunk by chunk.
+   *
+   * @param props - unique property names
+   * @param chunkSize - max number of properties in one request
+   * @param fetchOptions - options passed to `fetch`
+   * @returns values of properties by name
+   */
+  private async readAll(
+    props: string[],
+    chunkSize: number,
+    fetchOptions?: FetchOptions,
+  ): Promise<PropertyValues> {
+    const result: PropertyValues = {};
+
+    for (let i = 0; i < props.length; i += chunkSize) {
+      const chunk = props.slice(i, i + chunkSize);
+      const values = await this.readChunk(chunk, fetchOptions);
+      chunk.forEach((prop, j) => {
+        result[prop] = values[j] ?? null;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Reads chunk of properties splitting it if device can't return all of them.
+   *
+   * @param chunk - property names
+   * @param fetchOptions - options passed to `fetch`
+   * @returns values of properties in the same order
+   *
+   * @remarks
+   * Device error of a single property is thrown.
+   */
+  private async readChunk(
+    chunk: string[],
+    fetchOptions?: FetchOptions,
+  ): Promise<unknown[]> {
+    let values;
+
+    try {
+      values = await this.fetch(chunk, fetchOptions);
+    } catch (err) {
+      if (!(err instanceof DeviceError) || chunk.length === 1) {
+        throw err;
+      }
+
+      const half = Math.ceil(chunk.length / 2);
+      values = [
+        ...(await this.readChunk(chunk.slice(0, half), fetchOptions)),
+        ...(await this.readChunk(chunk.slice(half), fetchOptions)),
+      ];
+      this.learn(half);
+      return values;
+    }
+
+    if (!Array.isArray(values)) {
+      return [];
+    }
+
+    // Device returned only the first values (e.g. it limits response size).
+    if (values.length > 0 && values.length < chunk.length) {
+      this.learn(values.length);
+      return [
+        ...values,
+        ...(await this.readChunk(chunk.slice(values.length), fetchOptions)),
+      ];
+    }
+
+    return values;
+  }
+
+  /**
+   * Remembers chunk size if it is smaller than the learned one.
+   *
+   * @param size - chunk size device handled
+   */
+  private learn(size: number): void {
+    const learned = PropertyBatcher.chunkSizes.get(this.key);
+    if (learned === undefined || size < learned) {
+      PropertyBatcher.chunkSizes.set(this.key, size);
+    }
+  }
+}
+
+export default PropertyBatcher;
@@ -0,0 +1,246 @@
+import type { CallRequest } from "./middleware";
+
+/**
+ * Returns property values written by successful set call.
+ */
+export type SetterMapping = (params: unknown) => Record<string, unknown>;
+
+export type CacheOptions = {
+  /**
+   * Time in milliseconds during which cached value is fresh.
+   */
+  ttl?: number;
+
+  /**
+   * TTLs of individual properties.
+   */
+  ttls?: Record<string, number>;
+
+  /**
+   * Properties written by set methods: property name (written value is the
+   * first parameter) or function which returns written values.
+   */
+  setters?: Record<string, string | SetterMapping>;
+
+  /**
+   * Map `set_<name>` methods which are not listed in `setters`
+   * to `<name>` property.
+   */
+  inferSetters?: boolean;
+};
+
+type Entry = {
+  value: unknown;
+  expiresAt: number;
+};
+
+class PropertyCache {
+  static DEFAULT_OPTIONS: Required<CacheOptions> = {
+    ttl: 1000,
+    ttls: {},
+    setters: {},
+    inferSetters: true,
+  };
+
+  private options: Required<CacheOptions>;
+  private entries: Map<string, Entry>;
+
+  /**
+   * Represents read-through cache of device properties (read with `get_prop`).
+   *
+   * @param options - cache options
+   * @param options.ttl - time in milliseconds during which value is fresh
+   * @param options.ttls - TTLs of individual properties
+   * @param options.setters - properties written by set methods
+   * @param options.inferSetters - map `set_<name>` methods to `<name>` property
+   *
+   * @remarks
+   * Only missing and stale properties are requested from the device. Values
+   * are updated optimistically after successful set calls and invalidated
+   * after failed ones.
+   */
+  constructor(options?: CacheOptions) {
+    this.options = { ...PropertyCache.DEFAULT_OPTIONS, ...options };
+    this.entries = new Map();
+  }
+
+  /**
+   * Handles call: serves `get_prop` from cache and updates cache with results
+   * of `get_prop` and set calls.
+   *
+   * @param request - call request
+   * @param next - function which sends request to the device
+   * @returns result of the call
+   */
+  async handle(
+    request: CallRequest,
+    next: (request: CallRequest) => Promise<unknown>,
+  ): Promise<unknown> {
+    const { method, params } = request;
+
+    if (method === "get_prop" && Array.isArray(params)) {
+      return this.read(request, params.map(String), next);
+    }
+
+    const written = this.written(method, params);
+
+    if (!written) {
+      return next(request);
+    }
+
+    try {
+      const result = await next(request);
+      this.set(written);
+      return result;
+    } catch (err) {
+      this.invalidate(Object.keys(written));
+      throw err;
+    }
+  }
+
+  /**
+   * Returns `get_prop` result reading only missing and stale properties.
+   *
+   * @param request - `get_prop` request
+   * @param props - property names
+   * @param next - function which sends request to the device
+   * @returns values of `props` in the same order
+   */
+  private async read(
+    request: CallRequest,
+    props: string[],
+    next: (request: CallRequest) => Promise<unknown>,
+  ): Promise<unknown[]> {
+    const now = Date.now();
+    const missing = request.options.fresh
+      ? props
+      : props.filter((prop) => (this.entries.get(prop)?.expiresAt ?? 0) <= now);
+
+    if (missing.length > 0) {
+      let values: unknown;
+
+      try {
+        values = await next({ ...request, params: missing });
+      } catch (err) {
+        this.invalidate(missing);
+        throw err;
+      }
+
+      // Device didn't return values in the expected form, nothing to cache.
+      if (!Array.isArray(values) || values.length !== missing.length) {
+        this.invalidate(missing);
+        return missing.length === props.length
+          ? (values as unknown[])
+          : this.merge(props, missing, Array.isArray(values) ? values : []);
+      }
+
+      const fetched: Record<string, unknown> = {};
+      const fetchedValues = values;
+      missing.forEach((prop, i) => {
+        fetched[prop] = fetchedValues[i];
+      });
+      this.set(fetched);
+
+      return props.map((prop) =>
+        prop in fetched ? fetched[prop] : this.entries.get(prop)?.value,
+      );
+    }
+
+    return props.map((prop) => this.entries.get(prop)?.value);
+  }
+
+  /**
+   * Returns values of `props` combining cached values with truncated
+   * response of the device.
+   *
+   * @param props - requested property names
+   * @param missing - property names requested from the device
+   * @param values - values device returned for the first `missing` properties
+   * @returns values of `props` up to the first property device didn't return
+   *
+   * @remarks
+   * Result is truncated like the response, so the caller (e.g. `getProps`)
+   * requests only the remaining properties.
+   */
+  private merge(
+    props: string[],
+    missing: string[],
+    values: unknown[],
+  ): unknown[] {
+    const result: unknown[] = [];
+
+    for (const prop of props) {
+      const i = missing.indexOf(prop);
+      if (i === -1) {
+        result.push(this.entries.get(prop)?.value);
+      } else if (i < values.length) {
+        result.push(values[i]);
+      } else {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns property values written by set call.
+   *
+   * @param method - method name
+   * @param params - method params
+   * @returns written values or `null` if method doesn't write properties
+   */
+  private written(
+    method: string,
+    params: unknown,
+  ): Record<string, unknown> | null {
+    const mapping =
+      this.options.setters[method] ??
+      (this.options.inferSetters &&
+      method.startsWith("set_") &&
+      // MIoT properties are not cached.
+      method !== "set_properties"
+        ? method.slice("set_".length)
+        : undefined);
+
+    if (mapping === undefined) {
+      return null;
+    }
+
+    if (typeof mapping === "function") {
+      return mapping(params);
+    }
+
+    return { [mapping]: Array.isArray(params) ? params[0] : params };
+  }
+
+  /**
+   * Updates cached values.
+   *
+   * @param values - property values by name
+   */
+  set(values: Record<string, unknown>): void {
+    const now = Date.now();
+
+    Object.entries(values).forEach(([prop, value]) => {
+      const ttl = this.options.ttls[prop] ?? this.options.ttl;
+      this.entries.set(prop, { value, expiresAt: now + ttl });
+    });
+  }
+
+  /**
+   * Removes cached values.
+   *
+   * @param props - property names (all properties by default)
+   */
+  invalidate(props?: string[]): void {
+    if (!props) {
+      this.entries.clear();
+      return;
+    }
+
+    props.forEach((prop) => this.entries.delete(prop));
+  }
+}
+
+export default PropertyCache;
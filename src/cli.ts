@@ -0,0 +1,609 @@
+#!/usr/bin/env node
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Device, { CallOptions } from "./device";
+import Packet from "./packet";
+import Protocol from "./protocol";
+import { scanIterator, ScanOptions } from "./scan";
+import { decodeCapture } from "./pcap";
+import { WatchOptions } from "./poller";
+import { generateBindingsFromFile } from "./codegen";
+import {
+  MiioError,
+  DeviceError,
+  TimeoutError,
+  HandshakeError,
+  ChecksumError,
+  MalformedResponseError,
+  AbortError,
+} from "./errors";
+
+type Format = "json" | "table";
+
+type Args = {
+  positional: string[];
+  options: Record<string, string | boolean>;
+};
+
+type Command = {
+  usage: string;
+  description: string;
+  run: (args: Args, format: Format) => Promise<void>;
+};
+
+type Config = {
+  devices?: Record<string, { token?: string; deviceId?: number }>;
+};
+
+/**
+ * Represents invalid command line usage.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Exit codes by error class (the first matching class wins).
+ */
+export const EXIT_CODES: [new (...args: never[]) => Error, number][] = [
+  [UsageError, 2],
+  [DeviceError, 3],
+  [TimeoutError, 4],
+  [HandshakeError, 5],
+  [ChecksumError, 6],
+  [MalformedResponseError, 7],
+  [AbortError, 8],
+  [MiioError, 9],
+];
+
+const BOOLEAN_OPTIONS = ["help"];
+
+const TOKEN_REGEXP = /^[0-9a-f]{32}$/i;
+
+/**
+ * Parses command line arguments.
+ *
+ * @param argv - arguments without node and script paths
+ * @returns positional arguments and options
+ *
+ * @remarks
+ * Supports `--name value`, `--name=value` and boolean `--flag` options.
+ */
+export function parseArgs(argv: string[]): Args {
+  const args: Args = { positional: [], options: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === "--") {
+      args.positional.push(...argv.slice(i + 1));
+      break;
+    }
+
+    if (!arg.startsWith("--")) {
+      args.positional.push(arg);
+      continue;
+    }
+
+    const [name, value] = arg.slice(2).split(/=(.*)/s, 2);
+
+    if (value !== undefined) {
+      args.options[name] = value;
+    } else if (BOOLEAN_OPTIONS.includes(name)) {
+      args.options[name] = true;
+    } else if (i + 1 < argv.length) {
+      args.options[name] = argv[++i];
+    } else {
+      throw new UsageError(`Option --${name} requires a value`);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Returns numeric option value.
+ *
+ * @param args - parsed arguments
+ * @param name - option name
+ * @returns option value or `undefined` if option is not set
+ */
+function numberOption(args: Args, name: string): number | undefined {
+  const value = args.options[name];
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const n = Number(value);
+
+  if (typeof value !== "string" || !Number.isFinite(n)) {
+    throw new UsageError(`Option --${name} must be a number`);
+  }
+
+  return n;
+}
+
+/**
+ * Loads config file.
+ *
+ * @returns config (empty if file doesn't exist)
+ *
+ * @remarks
+ * Path is taken from `MIIO_CONFIG` env variable, `~/.miio.json` by default.
+ */
+function loadConfig(): Config {
+  const file = process.env.MIIO_CONFIG || path.join(os.homedir(), ".miio.json");
+
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Returns device token.
+ *
+ * @param address - device IP address
+ * @param token - token from command line
+ * @returns device token
+ *
+ * @remarks
+ * Token is looked up in the command line, then in `MIIO_TOKEN_<IP>` env variable
+ * (dots replaced with underscores), then in `MIIO_TOKEN` env variable and then
+ * in config file.
+ */
+function resolveToken(address: string, token?: string): string {
+  const envName = `MIIO_TOKEN_${address.replace(/\./g, "_")}`;
+  const resolved =
+    token ||
+    process.env[envName] ||
+    process.env.MIIO_TOKEN ||
+    loadConfig().devices?.[address]?.token;
+
+  if (!resolved) {
+    throw new UsageError(
+      `No token for ${address}: pass it as argument, set ${envName} or MIIO_TOKEN env variable or add it to config file`,
+    );
+  }
+
+  if (!TOKEN_REGEXP.test(resolved)) {
+    throw new UsageError(`Invalid token: "${resolved}"`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Splits device command arguments into address, token and the rest.
+ *
+ * @param positional - positional arguments
+ * @returns address, token and remaining arguments
+ */
+function deviceArgs(positional: string[]): {
+  address: string;
+  token: string;
+  rest: string[];
+} {
+  const [address, ...rest] = positional;
+
+  if (!address) {
+    throw new UsageError("Device address is required");
+  }
+
+  const token =
+    rest.length > 0 && TOKEN_REGEXP.test(rest[0]) ? rest.shift() : undefined;
+
+  return { address, token: resolveToken(address, token), rest };
+}
+
+/**
+ * Returns tokens by device id.
+ *
+ * @param args - parsed arguments
+ * @returns tokens by device id
+ *
+ * @remarks
+ * Tokens are taken from `--tokens <id>=<token>,...` option and from
+ * config file entries with `deviceId`.
+ */
+function deviceTokens(args: Args): Record<number, string> {
+  const tokens: Record<number, string> = {};
+
+  for (const { token, deviceId } of Object.values(loadConfig().devices || {})) {
+    if (token && deviceId !== undefined) {
+      tokens[deviceId] = token;
+    }
+  }
+
+  if (typeof args.options.tokens === "string") {
+    for (const pair of args.options.tokens.split(",")) {
+      const [deviceId, token] = pair.split("=");
+
+      if (!/^\d+$/.test(deviceId) || !TOKEN_REGEXP.test(token || "")) {
+        throw new UsageError(`Invalid device token: "${pair}"`);
+      }
+
+      tokens[Number(deviceId)] = token;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns call options from command line options.
+ *
+ * @param args - parsed arguments
+ * @returns call options
+ */
+function callOptions(args: Args): CallOptions {
+  const options: CallOptions = {};
+  const timeout = numberOption(args, "timeout");
+  const attempts = numberOption(args, "attempts");
+
+  // Undefined values must not override defaults.
+  if (timeout !== undefined) {
+    options.timeout = timeout;
+  }
+  if (attempts !== undefined) {
+    options.attempts = attempts;
+  }
+
+  return options;
+}
+
+/**
+ * Formats value as a plain text table.
+ *
+ * @param value - value to format
+ * @returns table
+ *
+ * @remarks
+ * Arrays of objects are formatted as rows with a header,
+ * objects as key/value rows, everything else as JSON.
+ */
+export function formatTable(value: unknown): string {
+  const cell = (v: unknown): string =>
+    typeof v === "string" ? v : JSON.stringify(v) ?? "";
+
+  let rows: string[][];
+
+  if (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((v) => typeof v === "object" && v !== null && !Array.isArray(v))
+  ) {
+    const columns: string[] = [];
+    value.forEach((v) =>
+      Object.keys(v).forEach((k) => columns.includes(k) || columns.push(k)),
+    );
+    rows = [
+      columns,
+      ...value.map((v) =>
+        columns.map((c) => cell((v as Record<string, unknown>)[c])),
+      ),
+    ];
+  } else if (typeof value === "object" && value !== null) {
+    rows = Object.entries(value).map(([k, v]) => [k, cell(v)]);
+  } else {
+    return cell(value);
+  }
+
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => (row[i] || "").length)),
+  );
+
+  return rows
+    .map((row) =>
+      row
+        .map((c, i) => c.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+/**
+ * Writes value to stdout.
+ *
+ * @param value - value to write
+ * @param format - output format
+ */
+function output(value: unknown, format: Format): void {
+  const text =
+    format === "table" ? formatTable(value) : JSON.stringify(value, null, 2);
+  process.stdout.write(text + "\n");
+}
+
+/**
+ * Connects to the device, runs function and destroys the device.
+ *
+ * @param args - parsed arguments
+ * @param func - function to run
+ */
+async function withDevice(
+  args: Args,
+  func: (device: Device, rest: string[]) => Promise<void>,
+): Promise<void> {
+  const { address, token, rest } = deviceArgs(args.positional);
+  const device = await Device.discover({ address, token }, callOptions(args));
+
+  try {
+    await func(device, rest);
+  } finally {
+    await device.destroy();
+  }
+}
+
+/**
+ * Waits for SIGINT or SIGTERM.
+ *
+ * @returns `Promise` which will be resolved when process is interrupted
+ */
+function interrupted(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once("SIGINT", () => resolve());
+    process.once("SIGTERM", () => resolve());
+  });
+}
+
+export const COMMANDS: Record<string, Command> = {
+  discover: {
+    usage: "discover [--address <broadcast|cidr>] [--timeout <ms>]",
+    description: "Find devices in the local network",
+    run: async (args, format) => {
+      const results = [];
+
+      const options: ScanOptions = {};
+      const timeout = numberOption(args, "timeout");
+
+      if (typeof args.options.address === "string") {
+        options.address = args.options.address;
+      }
+      if (timeout !== undefined) {
+        options.timeout = timeout;
+      }
+
+      for await (const result of scanIterator(options)) {
+        results.push({
+          address: result.address,
+          deviceId: result.deviceId,
+          timestamp: result.timestamp,
+          token: result.token,
+        });
+      }
+
+      output(results, format);
+    },
+  },
+
+  call: {
+    usage: "call <ip> [token] <method> [json-params]",
+    description: "Call device method",
+    run: (args, format) =>
+      withDevice(args, async (device, [method, rawParams]) => {
+        if (!method) {
+          throw new UsageError("Method is required");
+        }
+
+        let params;
+
+        try {
+          params = rawParams !== undefined ? JSON.parse(rawParams) : [];
+        } catch (err) {
+          throw new UsageError(`Invalid JSON params: ${rawParams}`);
+        }
+
+        output(await device.call(method, params, callOptions(args)), format);
+      }),
+  },
+
+  info: {
+    usage: "info <ip> [token]",
+    description: "Show device info (miIO.info)",
+    run: (args, format) =>
+      withDevice(args, async (device) => {
+        output(await device.call("miIO.info", [], callOptions(args)), format);
+      }),
+  },
+
+  watch: {
+    usage: "watch <ip> [token] <prop>... [--interval <ms>]",
+    description: "Print property changes until interrupted",
+    run: (args, format) =>
+      withDevice(args, async (device, props) => {
+        if (props.length === 0) {
+          throw new UsageError("At least one property is required");
+        }
+
+        device.on("change", (change) =>
+          output({ time: new Date().toISOString(), ...change }, format),
+        );
+        device.on("offline", (err) =>
+          process.stderr.write(`offline: ${err.message}\n`),
+        );
+        device.on("online", () => process.stderr.write("online\n"));
+        device.on("watchError", (err) =>
+          process.stderr.write(`error: ${err.message}\n`),
+        );
+
+        const watchOptions: WatchOptions = {};
+        const interval = numberOption(args, "interval");
+
+        if (interval !== undefined) {
+          watchOptions.interval = interval;
+        }
+
+        const unwatch = device.watch(props, watchOptions);
+
+        await interrupted();
+        unwatch();
+      }),
+  },
+
+  decode: {
+    usage: "decode <hex> [--token <token>]",
+    description: "Decode packet (decrypt payload if token is given)",
+    run: async (args, format) => {
+      const [hex] = args.positional;
+
+      if (!hex) {
+        throw new UsageError("Packet hex is required");
+      }
+
+      const packet = Packet.fromBuffer(
+        Buffer.from(hex.replace(/\s/g, ""), "hex"),
+      );
+      const token = args.options.token as string | undefined;
+
+      if (token !== undefined && !TOKEN_REGEXP.test(token)) {
+        throw new UsageError(`Invalid token: "${token}"`);
+      }
+
+      const decoded: Record<string, unknown> = {
+        deviceId: packet.deviceId,
+        timestamp: packet.timestamp,
+        checksum: packet.checksum.toString("hex"),
+        handshake: Protocol.isHandshake(packet),
+      };
+
+      if (token && !Protocol.isHandshake(packet)) {
+        const protocol = new Protocol(
+          packet.deviceId,
+          Buffer.from(token, "hex"),
+        );
+        decoded.payload = protocol.unpackResponse(packet);
+      } else if (!Protocol.isHandshake(packet)) {
+        decoded.data = packet.data.toString("hex");
+      }
+
+      output(decoded, format);
+    },
+  },
+
+  pcap: {
+    usage: "pcap <file> [--tokens <id>=<token>,...] [--port <port>]",
+    description: "Decode miIO traffic from pcap/pcapng file",
+    run: async (args, format) => {
+      const [file] = args.positional;
+
+      if (!file) {
+        throw new UsageError("Capture file is required");
+      }
+
+      const transcript = await decodeCapture(file, {
+        tokens: deviceTokens(args),
+        port: numberOption(args, "port"),
+      });
+
+      output(transcript, format);
+    },
+  },
+
+  codegen: {
+    usage:
+      "codegen <spec.json> [--out <file>] [--class <name>] [--import <module>]",
+    description: "Generate TypeScript bindings from MIoT spec instance JSON",
+    run: async (args) => {
+      const [file] = args.positional;
+      const out = args.options.out;
+
+      if (!file) {
+        throw new UsageError("Spec file is required");
+      }
+
+      const source = await generateBindingsFromFile(file, {
+        className: args.options.class as string | undefined,
+        importPath: args.options.import as string | undefined,
+      });
+
+      if (typeof out === "string") {
+        await fs.promises.writeFile(out, source);
+      } else {
+        process.stdout.write(source);
+      }
+    },
+  },
+};
+
+/**
+ * Returns usage text.
+ *
+ * @returns usage
+ */
+function usage(): string {
+  const commands = Object.values(COMMANDS)
+    .map((c) => `  miio ${c.usage}\n      ${c.description}`)
+    .join("\n");
+
+  return `Usage:
+${commands}
+
+Options:
+  --format <json|table>  output format (default: json)
+  --timeout <ms>         response timeout
+  --attempts <n>         number of attempts
+
+Token is taken from the arguments, MIIO_TOKEN_<IP> or MIIO_TOKEN env variables
+or config file (MIIO_CONFIG, ~/.miio.json by default):
+  { "devices": { "192.168.1.31": { "token": "...", "deviceId": 123 } } }
+`;
+}
+
+/**
+ * Returns exit code for the error.
+ *
+ * @param err - error
+ * @returns exit code
+ */
+export function exitCode(err: unknown): number {
+  const found = EXIT_CODES.find(([cls]) => err instanceof cls);
+  return found ? found[1] : 1;
+}
+
+/**
+ * Runs command line tool.
+ *
+ * @param argv - arguments without node and script paths
+ * @returns exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    const [name, ...positional] = args.positional;
+    // Prototype keys (e.g. `toString`) are not commands.
+    const command = Object.prototype.hasOwnProperty.call(COMMANDS, name)
+      ? COMMANDS[name]
+      : undefined;
+
+    if (!command || args.options.help) {
+      process.stdout.write(usage());
+      return name && !command ? 2 : 0;
+    }
+
+    const format = (args.options.format || "json") as Format;
+
+    if (format !== "json" && format !== "table") {
+      throw new UsageError(`Unknown format: "${format}"`);
+    }
+
+    await command.run({ ...args, positional }, format);
+
+    return 0;
+  } catch (err) {
+    const name = err instanceof Error ? err.name : "Error";
+    const message = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`${name}: ${message}\n`);
+    return exitCode(err);
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => process.exit(code));
+}
@@ -0,0 +1,66 @@
+import { monotonicNow } from "./utils";
+
+class DeviceClock {
+  /**
+   * Max difference (in seconds) between received and expected device
+   * timestamp which is not considered a clock jump.
+   */
+  static MAX_DRIFT = 5;
+
+  private timestamp: number;
+  private receivedAt: number;
+
+  /**
+   * Represents device clock estimated from the last received device
+   * timestamp and local monotonic time of its receipt.
+   */
+  constructor() {
+    this.timestamp = 0;
+    this.receivedAt = monotonicNow();
+  }
+
+  /**
+   * Returns the last received device timestamp.
+   *
+   * @returns device timestamp in seconds
+   */
+  get lastTimestamp(): number {
+    return this.timestamp;
+  }
+
+  /**
+   * Sets device timestamp unconditionally (e.g. after handshake).
+   *
+   * @param timestamp - device timestamp in seconds
+   * @param age - how long ago (in milliseconds) `timestamp` was received
+   */
+  sync(timestamp: number, age = 0): void {
+    this.timestamp = timestamp;
+    this.receivedAt = monotonicNow() - Math.max(0, age);
+  }
+
+  /**
+   * Updates device timestamp from the received packet.
+   *
+   * @param timestamp - device timestamp in seconds
+   * @returns `false` if `timestamp` differs from the expected one more than
+   *    `MAX_DRIFT` seconds (device clock jumped or device rebooted)
+   */
+  update(timestamp: number): boolean {
+    const drift = Math.abs(timestamp - this.now());
+    this.sync(timestamp);
+    return drift <= DeviceClock.MAX_DRIFT;
+  }
+
+  /**
+   * Returns current device time estimation.
+   *
+   * @returns device timestamp in seconds
+   */
+  now(): number {
+    const elapsed = Math.floor((monotonicNow() - this.receivedAt) / 1000);
+    return this.timestamp + elapsed;
+  }
+}
+
+export default DeviceClock;
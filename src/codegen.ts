@@ -0,0 +1,547 @@
+import fs from "fs";
+import { ProfileError } from "./errors";
+
+/**
+ * Item of MIoT property `value-list`.
+ */
+export type MiotSpecValue = {
+  value: number | string | boolean;
+  description: string;
+};
+
+/**
+ * Property of MIoT spec instance.
+ */
+export type MiotSpecProperty = {
+  iid: number;
+  type: string;
+  description?: string;
+  format: string;
+  access: string[];
+  unit?: string;
+  "value-list"?: MiotSpecValue[];
+  "value-range"?: number[];
+};
+
+/**
+ * Action of MIoT spec instance.
+ */
+export type MiotSpecAction = {
+  iid: number;
+  type: string;
+  description?: string;
+  in: number[];
+  out: number[];
+};
+
+/**
+ * Service of MIoT spec instance.
+ */
+export type MiotSpecService = {
+  iid: number;
+  type: string;
+  description?: string;
+  properties?: MiotSpecProperty[];
+  actions?: MiotSpecAction[];
+};
+
+/**
+ * MIoT spec instance (`urn:miot-spec-v2:device:...`).
+ */
+export type MiotSpec = {
+  type: string;
+  description?: string;
+  services: MiotSpecService[];
+};
+
+export type CodegenOptions = {
+  /**
+   * Name of the generated class (derived from the device type by default).
+   */
+  className?: string;
+
+  /**
+   * Module the generated code imports `Device` from (`miio-api` by default).
+   */
+  importPath?: string;
+};
+
+const NUMBER_FORMATS = [
+  "int8",
+  "int16",
+  "int32",
+  "int64",
+  "uint8",
+  "uint16",
+  "uint32",
+  "uint64",
+  "float",
+];
+
+const INTEGER_FORMATS = NUMBER_FORMATS.filter((format) => format !== "float");
+
+/**
+ * Helper emitted into every generated module.
+ */
+const CHECK_VALUE = `/**
+ * Checks value against MIoT spec constraints.
+ *
+ * @param value - value to check
+ * @param name - value name used in the error message
+ * @param constraints - allowed values, range (\`[min, max, step]\`) and integer flag
+ */
+function checkValue(
+  value: unknown,
+  name: string,
+  constraints: { values?: readonly unknown[]; range?: readonly number[]; integer?: boolean },
+): void {
+  const { values, range, integer } = constraints;
+  let valid = true;
+
+  if (values && !values.includes(value)) {
+    valid = false;
+  }
+  if (typeof value === "number") {
+    if (integer && !Number.isInteger(value)) {
+      valid = false;
+    }
+    if (range) {
+      const [min, max, step] = range;
+      const steps = step ? (value - min) / step : 0;
+      if (value < min || value > max || Math.abs(steps - Math.round(steps)) > 1e-9) {
+        valid = false;
+      }
+    }
+  }
+
+  if (!valid) {
+    throw new ValidationError(\`Invalid \${name}: \${JSON.stringify(value)}\`, {
+      params: [value],
+    });
+  }
+}`;
+
+/**
+ * Returns name part of MIoT type URN.
+ *
+ * @param type - type URN (e.g. `urn:miot-spec-v2:property:on:00000006:zhimi-ma4:1`)
+ * @returns name (e.g. `on`)
+ */
+function typeName(type: string): string {
+  return type.split(":")[3] || type;
+}
+
+/**
+ * Converts words to PascalCase identifier.
+ *
+ * @param text - text with words separated by non-alphanumeric characters
+ * @returns identifier
+ */
+function pascalCase(text: string): string {
+  const name = text
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Converts words to camelCase identifier.
+ *
+ * @param text - text with words separated by non-alphanumeric characters
+ * @returns identifier
+ */
+function camelCase(text: string): string {
+  const name = pascalCase(text);
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Returns name which is not used yet (adds `suffix` and then a counter
+ * to used names).
+ *
+ * @param name - preferred name
+ * @param suffix - suffix which likely makes name unique
+ * @param used - used names (name is added to the set)
+ * @returns unique name
+ */
+function uniqueName(name: string, suffix: string, used: Set<string>): string {
+  let unique = used.has(name) ? `${name}${suffix}` : name;
+  for (let i = 2; used.has(unique); i++) {
+    unique = `${name}${suffix}${i}`;
+  }
+  used.add(unique);
+  return unique;
+}
+
+/**
+ * Returns JSDoc comment.
+ *
+ * @param lines - comment lines
+ * @param indent - indentation
+ * @returns comment
+ */
+function comment(lines: string[], indent = ""): string {
+  return [
+    `${indent}/**`,
+    ...lines.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)),
+    `${indent} */`,
+  ].join("\n");
+}
+
+/**
+ * Checks spec structure (specs are read from JSON files).
+ *
+ * @param spec - MIoT spec instance
+ */
+function checkSpec(spec: MiotSpec): void {
+  if (!spec || typeof spec.type !== "string" || !Array.isArray(spec.services)) {
+    throw new ProfileError("Invalid MIoT spec: type and services are required");
+  }
+
+  const fail = (reason: string): never => {
+    throw new ProfileError(`Invalid MIoT spec: ${reason}`);
+  };
+
+  spec.services.forEach((service) => {
+    if (typeof service.iid !== "number" || typeof service.type !== "string") {
+      fail(`service ${JSON.stringify(service.type)} has no iid or type`);
+    }
+
+    const where = `service ${service.iid}`;
+
+    if (
+      (service.properties !== undefined &&
+        !Array.isArray(service.properties)) ||
+      (service.actions !== undefined && !Array.isArray(service.actions))
+    ) {
+      fail(`properties and actions of ${where} must be arrays`);
+    }
+
+    (service.properties || []).forEach((property) => {
+      if (
+        typeof property?.iid !== "number" ||
+        typeof property.type !== "string" ||
+        typeof property.format !== "string" ||
+        !Array.isArray(property.access)
+      ) {
+        fail(
+          `property ${JSON.stringify(
+            property?.iid,
+          )} of ${where} must have iid, type, format and access`,
+        );
+      }
+    });
+
+    (service.actions || []).forEach((action) => {
+      if (
+        typeof action?.iid !== "number" ||
+        typeof action.type !== "string" ||
+        !Array.isArray(action.in)
+      ) {
+        fail(
+          `action ${JSON.stringify(
+            action?.iid,
+          )} of ${where} must have iid, type and in`,
+        );
+      }
+    });
+  });
+}
+
+type PropertyInfo = {
+  service: MiotSpecService;
+  property: MiotSpecProperty;
+  name: string;
+  valueType: string;
+  constraints: string | null;
+};
+
+/**
+ * Generates TypeScript module with typed bindings of the device described
+ * by MIoT spec.
+ *
+ * @param spec - MIoT spec instance
+ * @param options - codegen options
+ * @param options.className - name of the generated class
+ * @param options.importPath - module to import `Device` from
+ * @returns source of the TypeScript module
+ *
+ * @remarks
+ * Generated class wraps `Device` and has getter for each readable property,
+ * setter for each writable property and method for each action. Values are
+ * checked against `value-list` and `value-range` before the call
+ * (`ValidationError`), `value-list` items are emitted as constants.
+ */
+export function generateBindings(
+  spec: MiotSpec,
+  options?: CodegenOptions,
+): string {
+  checkSpec(spec);
+
+  const importPath = options?.importPath || "miio-api";
+  const typeParts = spec.type.split(":");
+  const className =
+    options?.className ||
+    pascalCase(`${typeParts[3] || "device"}-${typeParts[5] || ""}`);
+
+  const constants: string[] = [];
+  const methods: string[] = [];
+  const usedTypes = new Set<string>([className]);
+  const usedMethods = new Set<string>(["device", "constructor"]);
+  const properties = new Map<string, PropertyInfo>();
+
+  spec.services.forEach((service) => {
+    const serviceName = pascalCase(typeName(service.type));
+
+    (service.properties || []).forEach((property) => {
+      const name = uniqueName(
+        `${serviceName}${pascalCase(typeName(property.type))}`,
+        `${service.iid}${property.iid}`,
+        usedTypes,
+      );
+      const isNumber = NUMBER_FORMATS.includes(property.format);
+      let valueType =
+        property.format === "bool"
+          ? "boolean"
+          : isNumber
+          ? "number"
+          : property.format === "string"
+          ? "string"
+          : "unknown";
+      const constraints: string[] = [];
+      const values = property["value-list"];
+
+      if (values && values.length > 0) {
+        const usedKeys = new Set<string>();
+        const entries = values.map((item) => {
+          const key = uniqueName(
+            pascalCase(item.description) || `Value${item.value}`,
+            String(item.value),
+            usedKeys,
+          );
+          return `  ${key}: ${JSON.stringify(item.value)},`;
+        });
+
+        constants.push(
+          [
+            comment([
+              `Values of ${service.description || serviceName}: ${
+                property.description || name
+              }.`,
+            ]),
+            `export const ${name} = {`,
+            ...entries,
+            "} as const;",
+            "",
+            `export type ${name} = typeof ${name}[keyof typeof ${name}];`,
+          ].join("\n"),
+        );
+        valueType = name;
+        constraints.push(`values: Object.values(${name})`);
+      }
+
+      const range = property["value-range"];
+      if (range && range.length >= 2) {
+        constraints.push(`range: [${range.join(", ")}]`);
+      }
+      if (INTEGER_FORMATS.includes(property.format)) {
+        constraints.push("integer: true");
+      }
+
+      properties.set(`${service.iid}.${property.iid}`, {
+        service,
+        property,
+        name,
+        valueType,
+        constraints: constraints.length > 0 ? constraints.join(", ") : null,
+      });
+    });
+  });
+
+  properties.forEach(({ service, property, name, valueType, constraints }) => {
+    const title = `${service.description || typeName(service.type)}: ${
+      property.description || typeName(property.type)
+    }`;
+    const unit =
+      property.unit && property.unit !== "none" ? ` (${property.unit})` : "";
+    const pid = `siid: ${service.iid}, piid: ${property.iid}`;
+
+    if (property.access.includes("read")) {
+      const method = uniqueName(`get${name}`, "", usedMethods);
+      methods.push(
+        [
+          comment(
+            [
+              `Returns ${title}${unit}.`,
+              "",
+              "@param callOptions - call options",
+              "@returns property value",
+            ],
+            "  ",
+          ),
+          `  async ${method}(callOptions?: CallOptions): Promise<${valueType}> {`,
+          `    const [value] = await this.device.getProperties<[${valueType}]>(`,
+          `      [{ ${pid} }],`,
+          "      callOptions,",
+          "    );",
+          "    return value;",
+          "  }",
+        ].join("\n"),
+      );
+    }
+
+    if (property.access.includes("write")) {
+      const method = uniqueName(`set${name}`, "", usedMethods);
+      methods.push(
+        [
+          comment(
+            [
+              `Sets ${title}${unit}.`,
+              "",
+              "@param value - new value",
+              "@param callOptions - call options",
+            ],
+            "  ",
+          ),
+          `  async ${method}(value: ${valueType}, callOptions?: CallOptions): Promise<void> {`,
+          ...(constraints
+            ? [
+                `    checkValue(value, ${JSON.stringify(
+                  typeName(property.type),
+                )}, { ${constraints} });`,
+              ]
+            : []),
+          `    await this.device.setProperties([{ ${pid}, value }], callOptions);`,
+          "  }",
+        ].join("\n"),
+      );
+    }
+  });
+
+  spec.services.forEach((service) => {
+    (service.actions || []).forEach((action) => {
+      const method = uniqueName(
+        camelCase(typeName(action.type)),
+        pascalCase(typeName(service.type)),
+        usedMethods,
+      );
+      const usedParams = new Set<string>(["callOptions"]);
+      const params = action.in.map((piid) => {
+        const info = properties.get(`${service.iid}.${piid}`);
+        return {
+          name: uniqueName(
+            info ? camelCase(typeName(info.property.type)) : `param${piid}`,
+            String(piid),
+            usedParams,
+          ),
+          info,
+        };
+      });
+
+      methods.push(
+        [
+          comment(
+            [
+              `Calls ${service.description || typeName(service.type)}: ${
+                action.description || typeName(action.type)
+              }.`,
+              "",
+              ...params.map(
+                ({ name, info }) =>
+                  `@param ${name} - ${
+                    info?.property.description || "action parameter"
+                  }`,
+              ),
+              "@param callOptions - call options",
+              "@returns action output",
+            ],
+            "  ",
+          ),
+          `  async ${method}(${[
+            ...params.map(
+              ({ name, info }) =>
+                `${name}: ${info ? info.valueType : "unknown"}`,
+            ),
+            "callOptions?: CallOptions",
+          ].join(", ")}): Promise<unknown[]> {`,
+          ...params
+            .filter(({ info }) => info?.constraints)
+            .map(
+              ({ name, info }) =>
+                `    checkValue(${name}, ${JSON.stringify(name)}, { ${
+                  info?.constraints
+                } });`,
+            ),
+          "    return this.device.callAction(",
+          `      { siid: ${service.iid}, aiid: ${action.iid}, in: [${params
+            .map(({ name }) => name)
+            .join(", ")}] },`,
+          "      callOptions,",
+          "    );",
+          "  }",
+        ].join("\n"),
+      );
+    });
+  });
+
+  return [
+    comment([
+      `Generated from ${spec.type}${
+        spec.description ? ` (${spec.description})` : ""
+      }.`,
+      "Do not edit.",
+    ]),
+    `import { Device, ValidationError } from ${JSON.stringify(importPath)};`,
+    `import type { CallOptions } from ${JSON.stringify(importPath)};`,
+    "",
+    CHECK_VALUE,
+    "",
+    ...constants.map((constant) => `${constant}\n`),
+    `export class ${className} {`,
+    `  static TYPE = ${JSON.stringify(spec.type)};`,
+    "",
+    "  device: Device;",
+    "",
+    comment(
+      [
+        `Represents ${spec.description || className} device.`,
+        "",
+        "@param device - device",
+      ],
+      "  ",
+    ),
+    "  constructor(device: Device) {",
+    "    this.device = device;",
+    "  }",
+    ...methods.map((method) => `\n${method}`),
+    "}",
+    "",
+    `export default ${className};`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Generates TypeScript bindings from MIoT spec JSON file.
+ *
+ * @param path - path to spec JSON file
+ * @param options - codegen options (see `generateBindings`)
+ * @returns source of the TypeScript module
+ */
+export async function generateBindingsFromFile(
+  path: string,
+  options?: CodegenOptions,
+): Promise<string> {
+  const text = await fs.promises.readFile(path, "utf8");
+  let spec;
+
+  try {
+    spec = JSON.parse(text);
+  } catch (err) {
+    throw new ProfileError(`Invalid MIoT spec: ${path} is not valid JSON`);
+  }
+
+  return generateBindings(spec, options);
+}
@@ -0,0 +1,149 @@
+import { ScanOptions } from "./scan";
+import {
+  ChecksumError,
+  HandshakeError,
+  SocketError,
+  ErrorCode,
+} from "./errors";
+
+/**
+ * State of the connection to the device:
+ * - `connecting` - no response received yet;
+ * - `ready` - the last call succeeded;
+ * - `degraded` - the last calls failed, but not enough to consider device offline;
+ * - `offline` - `offlineAfter` calls in a row failed.
+ */
+export type ConnectionState = "connecting" | "ready" | "degraded" | "offline";
+
+/**
+ * What device should do after failed call:
+ * - `none` - nothing;
+ * - `handshake` - make handshake before the next call;
+ * - `rescan` - make handshake and look for the device at another address;
+ * - `token` - report probable token change.
+ */
+export type RecoveryAction = "none" | "handshake" | "rescan" | "token";
+
+export type RecoveryOptions = {
+  offlineAfter?: number;
+  tokenMismatchAfter?: number;
+  rescan?: boolean | ScanOptions;
+};
+
+class Connection {
+  static DEFAULT_RECOVERY_OPTIONS: Required<RecoveryOptions> = {
+    offlineAfter: 3,
+    tokenMismatchAfter: 2,
+    rescan: true,
+  };
+
+  state: ConnectionState;
+
+  private options: Required<RecoveryOptions>;
+  private onState: (state: ConnectionState, previous: ConnectionState) => void;
+  private failures: number;
+  private checksumFailures: number;
+
+  /**
+   * Represents connection state machine of a single device.
+   *
+   * @param options - recovery options
+   * @param options.offlineAfter - number of failed calls in a row after which device is offline
+   * @param options.tokenMismatchAfter - number of checksum failures in a row after which
+   *    token is considered changed
+   * @param options.rescan - whether to look for offline device at another address
+   *    (or scan options)
+   * @param onState - state change handler
+   */
+  constructor(
+    options: RecoveryOptions | undefined,
+    onState: (state: ConnectionState, previous: ConnectionState) => void,
+  ) {
+    this.options = { ...Connection.DEFAULT_RECOVERY_OPTIONS, ...options };
+    this.onState = onState;
+    this.state = "connecting";
+    this.failures = 0;
+    this.checksumFailures = 0;
+  }
+
+  /**
+   * Registers successful exchange with the device.
+   */
+  succeeded(): void {
+    this.failures = 0;
+    this.checksumFailures = 0;
+    this.setState("ready");
+  }
+
+  /**
+   * Registers failed call.
+   *
+   * @param err - call error
+   * @returns recovery action
+   *
+   * @remarks
+   * Only timeouts, socket errors, failed handshakes and checksum failures
+   * are taken into account.
+   */
+  failed(err: Error): RecoveryAction {
+    if (err instanceof ChecksumError) {
+      this.checksumFailures++;
+      this.setState("degraded");
+      return this.checksumFailures >= this.options.tokenMismatchAfter
+        ? "token"
+        : "none";
+    }
+
+    const unreachable =
+      err instanceof HandshakeError ||
+      (err instanceof SocketError && err.code !== ErrorCode.CLOSED);
+
+    if (!unreachable) {
+      return "none";
+    }
+
+    this.failures++;
+    this.checksumFailures = 0;
+
+    if (this.failures < this.options.offlineAfter) {
+      this.setState("degraded");
+      return "handshake";
+    }
+
+    this.setState("offline");
+
+    // Rescan once per `offlineAfter` failures.
+    return this.options.rescan !== false &&
+      this.failures % this.options.offlineAfter === 0
+      ? "rescan"
+      : "handshake";
+  }
+
+  /**
+   * Returns options of the scan used to find device at another address.
+   *
+   * @returns scan options or `null` if rescan is disabled
+   */
+  scanOptions(): ScanOptions | null {
+    const rescan = this.options.rescan;
+    if (rescan === false) {
+      return null;
+    }
+    return rescan === true ? {} : rescan;
+  }
+
+  /**
+   * Changes state and calls state handler.
+   *
+   * @param state - new state
+   */
+  private setState(state: ConnectionState): void {
+    if (this.state !== state) {
+      const previous = this.state;
+      this.state = state;
+      this.onState(state, previous);
+    }
+  }
+}
+
+export default Connection;
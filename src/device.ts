@@ -1,57 +1,273 @@
-import Protocol from "./protocol";
+import { EventEmitter } from "events";
+import Protocol, { Params, Request, Response } from "./protocol";
 import Packet from "./packet";
 import Socket from "./socket";
-import logger from "./logger";
-import { DeviceError } from "./errors";
-import { randomInt, retry, randomString } from "./utils";
+import { Transport } from "./transport";
+import { Log, LoggingOptions, hexdump } from "./logger";
+import RequestQueue, { QueueOptions } from "./queue";
+import Poller, { WatchOptions, PropertyChange } from "./poller";
+import PropertyBatcher, { BatchOptions, PropertyValues } from "./batch";
+import PropertyCache, { CacheOptions } from "./cache";
+import DeviceClock from "./clock";
+import Connection, { ConnectionState, RecoveryOptions } from "./connection";
+import { scanIterator, extractToken } from "./scan";
+import { Middleware, CallRequest, runMiddlewares } from "./middleware";
+import { DeviceSession, SessionStore } from "./session";
+import {
+  MiioError,
+  DeviceError,
+  AbortError,
+  HandshakeError,
+  MalformedResponseError,
+  TokenMismatchError,
+  TimeoutError,
+  ChecksumError,
+  ProvisionError,
+} from "./errors";
+import { randomInt, randomString, monotonicNow } from "./utils";
+import { emitEvent, describeError } from "./instrumentation";
+import { retry, mergePolicies, RetryPolicy } from "./retry";
+import {
+  Aborter,
+  AbortSignalLike,
+  linkSignals,
+  abortable,
+  abortReason,
+} from "./abort";
+import {
+  MiotProperty,
+  MiotPropertyValue,
+  MiotPropertyResult,
+  MiotAction,
+  MiotActionResult,
+  withDid,
+  matchMiotResults,
+  checkMiotResult,
+} from "./miot";
 
 export type DeviceParams = {
   address: string;
   token: string;
   deviceId: number;
+  transport?: Transport;
   socket?: Socket;
   lastSeenAt?: number;
   timestamp?: number;
+  queue?: QueueOptions;
+  sessions?: SessionStore;
+  recovery?: RecoveryOptions;
+  middlewares?: Middleware[];
+  logging?: LoggingOptions;
+  model?: string;
+  cache?: CacheOptions | boolean;
 };
 
 export type DiscoverParams = {
   address: string;
   token: string;
+  transport?: Transport;
+  queue?: QueueOptions;
+  sessions?: SessionStore;
+  recovery?: RecoveryOptions;
+  middlewares?: Middleware[];
+  logging?: LoggingOptions;
+  model?: string;
+  cache?: CacheOptions | boolean;
 };
 
+export type ProvisionParams = {
+  /**
+   * Device address in its own access point network.
+   */
+  address?: string;
+  transport?: Transport;
+  ssid: string;
+  passwd: string;
+
+  /**
+   * Xiaomi account identifier.
+   */
+  uid?: number;
+
+  /**
+   * Country domain (e.g. `de`, `cn`).
+   */
+  country?: string;
+
+  /**
+   * Time zone (e.g. `Europe/Berlin`).
+   */
+  tz?: string;
+  logging?: LoggingOptions;
+};
+
+export type ProvisionResult = {
+  address: string;
+  deviceId: number;
+  token: string;
+};
+
+/**
+ * Returns packet fields safe to log.
+ *
+ * @param packet - packet
+ * @returns packet header without checksum (handshake response checksum is the token)
+ */
+function packetFields(packet: Packet): Record<string, unknown> {
+  return {
+    deviceId: packet.deviceId,
+    timestamp: packet.timestamp,
+    size: Packet.HEADER_SIZE + packet.data.length,
+  };
+}
+
 type HandshakeResult = {
   deviceId: number;
   timestamp: number;
+  checksum: Buffer;
 };
 
 export type CallOptions = {
   attempts?: number;
   delay?: number;
   timeout?: number;
+  priority?: number;
+  retry?: RetryPolicy;
+  signal?: AbortSignalLike;
+  deadline?: number | Date;
+  fresh?: boolean;
+};
+
+/**
+ * Options of `getProps`: batch options (see `PropertyBatcher`) and call options.
+ */
+export type GetPropsOptions = BatchOptions & CallOptions;
+
+/**
+ * Message pushed by the device (e.g. `props`).
+ */
+export type DeviceMessage = {
+  id?: number;
+  method: string;
+  params: unknown;
+};
+
+/**
+ * Event pushed by the device (message with `event.<name>` method).
+ */
+export type DeviceEvent = {
+  name: string;
+  params: unknown;
 };
 
-class Device {
+export interface DeviceEvents {
+  change: (change: PropertyChange) => void;
+  online: () => void;
+  offline: (err: Error) => void;
+  watchError: (err: Error) => void;
+  message: (message: DeviceMessage) => void;
+  event: (event: DeviceEvent) => void;
+  late: (response: Response<unknown>) => void;
+  state: (state: ConnectionState, previous: ConnectionState) => void;
+  moved: (address: string, previous: string) => void;
+  tokenMismatch: (err: TokenMismatchError) => void;
+}
+
+declare interface Device {
+  on<E extends keyof DeviceEvents>(event: E, listener: DeviceEvents[E]): this;
+  once<E extends keyof DeviceEvents>(event: E, listener: DeviceEvents[E]): this;
+  off<E extends keyof DeviceEvents>(event: E, listener: DeviceEvents[E]): this;
+  emit<E extends keyof DeviceEvents>(
+    event: E,
+    ...args: Parameters<DeviceEvents[E]>
+  ): boolean;
+}
+
+/**
+ * Parses response packet.
+ *
+ * @param buf - binary response
+ * @returns `Packet` parsed from `buf`
+ */
+function parsePacket(buf: Buffer): Packet {
+  try {
+    return Packet.fromBuffer(buf);
+  } catch (err) {
+    throw new MalformedResponseError((err as Error).message, {
+      cause: err as Error,
+    });
+  }
+}
+
+/**
+ * Converts any error into `MiioError`.
+ *
+ * @param err - error to convert
+ * @returns `err` itself if it is `MiioError` or `MiioError` caused by `err`
+ */
+function toMiioError(err: unknown): MiioError {
+  if (err instanceof MiioError) {
+    return err;
+  }
+  const cause = err instanceof Error ? err : new Error(String(err));
+  return new MiioError(cause.message, { cause });
+}
+
+class Device extends EventEmitter {
   static PORT = 54321;
   static MAX_CALL_INTERVAL = 60;
+
+  /**
+   * Address of factory-reset device in its own access point network.
+   */
+  static DEFAULT_AP_ADDRESS = "192.168.8.1";
+  static MAX_SENT_IDS = 64;
   static DEFAULT_CALL_OPTIONS: CallOptions = {
-    attempts: 3,
-    delay: 3000,
     timeout: 3000,
   };
 
+  /**
+   * Priority of user commands.
+   */
+  static PRIORITY_HIGH = 10;
+
+  /**
+   * Priority of background requests (e.g. polling).
+   */
+  static PRIORITY_LOW = -10;
+
+  private token: string;
   private protocol: Protocol;
-  private socket: Socket;
+  private transport: Transport;
+  private queue: RequestQueue;
+  private poller: Poller;
+  private batcher: PropertyBatcher<CallOptions>;
+  private model: string | null;
+  private modelRequest: Promise<unknown> | null;
+  private cache: PropertyCache | null;
+  private sentIds: number[];
+  private aborter: Aborter;
+  private sessions: SessionStore | null;
+  private connection: Connection;
+  private relocating: boolean;
+  private middlewares: Middleware[];
 
-  private timestamp: number;
+  private clock: DeviceClock;
   private lastSeenAt: number;
   private handshakePromise: Promise<HandshakeResult> | null;
-  private log: typeof logger;
+  private logging: LoggingOptions | undefined;
+  private log: Log;
 
   /**
    * Device identifier.
    */
   id: number;
 
+  /**
+   * Device IP address.
+   */
+  address: string;
+
   /**
    * Represents a miIO `Device`.
    *
@@ -59,74 +275,193 @@ class Device {
    * @param params.address - device IP address
    * @param params.token - device token
    * @param params.deviceId - device identifier
-   * @param params.socket - socket
+   * @param params.transport - transport (UDP socket by default)
+   * @param params.socket - socket (deprecated, use `transport`)
    * @param params.lastSeenAt - time of last communication with device
    * @param params.timestamp - last device timestamp
+   * @param params.queue - request queue options (see `RequestQueue`)
+   * @param params.sessions - store where session is saved after each handshake
+   *    and on destroy (see `toJSON`)
+   * @param params.recovery - recovery options (see `Connection`)
+   * @param params.middlewares - call middlewares (see `use`)
+   * @param params.logging - logging options (global options are used by default,
+   *    see `configureLogging`)
+   * @param params.model - device model (devices of the same model share
+   *    learned `getProps` chunk size), requested with `miIO.info` by default
+   * @param params.cache - property cache options (`true` for default options,
+   *    see `PropertyCache`), cache is disabled by default
    *
    * @remarks
    * It is recommended not to create device using this constructor but to
    * use `Device.discover` method instead.
-   * Parameters `socket`, `lastSeenAt` and `timestamp` are optional and introduced only to
+   * Parameters `transport`, `lastSeenAt` and `timestamp` are optional and introduced only to
    * be able to avoid double handshake at the start.
    */
   constructor(params: DeviceParams) {
+    super();
     this.id = params.deviceId;
+    this.address = params.address;
+    this.token = params.token;
     this.protocol = new Protocol(
       params.deviceId,
       Buffer.from(params.token, "hex"),
     );
-    this.socket = params.socket || new Socket(params.address, Device.PORT);
-    this.timestamp = params.timestamp || 0;
+    this.transport =
+      params.transport ||
+      params.socket ||
+      new Socket(params.address, Device.PORT);
+    this.clock = new DeviceClock();
     this.lastSeenAt = params.lastSeenAt || 0;
+    this.clock.sync(
+      params.timestamp || 0,
+      this.lastSeenAt ? Date.now() - this.lastSeenAt : 0,
+    );
+    this.queue = new RequestQueue(params.queue);
+    this.sentIds = [];
+    this.aborter = new Aborter();
+    this.sessions = params.sessions || null;
+    this.connection = new Connection(params.recovery, (state, previous) =>
+      this.emit("state", state, previous),
+    );
+    this.relocating = false;
+    this.middlewares = [...(params.middlewares || [])];
+    this.poller = new Poller(
+      (props) =>
+        this.call<string[], unknown[]>("get_prop", props, {
+          priority: Device.PRIORITY_LOW,
+          fresh: true,
+        }),
+      {
+        change: (change) => this.emit("change", change),
+        online: () => this.emit("online"),
+        offline: (err) => this.emit("offline", err),
+        error: (err) => this.emit("watchError", err),
+      },
+    );
+    this.batcher = new PropertyBatcher(
+      (props, options) =>
+        this.call<string[], unknown[]>("get_prop", props, options),
+      params.model || `device:${params.deviceId}`,
+    );
+    this.model = params.model || null;
+    this.modelRequest = null;
+    this.cache = params.cache
+      ? new PropertyCache(params.cache === true ? undefined : params.cache)
+      : null;
     this.handshakePromise = null;
-    this.log = logger.extend(params.address);
+    this.logging = params.logging;
+    this.log = new Log(params.logging, { address: params.address });
+
+    if (this.transport.listen) {
+      this.transport.listen((msg) => this.receive(msg));
+    }
+  }
+
+  /**
+   * Returns retry policy for the call.
+   *
+   * @param options - call options
+   * @returns `options.retry` with `options.attempts` and `options.delay`
+   *    used as defaults
+   */
+  private static retryPolicy(options: CallOptions): RetryPolicy {
+    return mergePolicies(
+      { attempts: options.attempts, delay: options.delay },
+      options.retry,
+    );
   }
 
   /**
    * Makes handshake.
    *
-   * @param socket - device socket
+   * @param transport - device transport
+   * @param address - device address
+   * @param log - device logger
    * @param options - call options
+   * @param signal - abort signal
    * @returns `Promise` with handshake result
    */
   private static async handshake(
-    socket: Socket,
+    transport: Transport,
+    address: string,
+    log: Log,
     callOptions?: CallOptions,
+    signal?: AbortSignalLike,
   ): Promise<HandshakeResult> {
     const options = { ...Device.DEFAULT_CALL_OPTIONS, ...callOptions };
-    const logWithId = logger.extend(socket.ip).extend(randomString());
+    const id = randomString();
+    const logWithId = log.child({ operation: id });
+    const startedAt = monotonicNow();
     let attempt = 0;
+    let packet;
 
-    const packet = await retry(
-      async () => {
-        const requestPacket = Protocol.HANDSHAKE_PACKET;
-        logWithId("-> %O", requestPacket);
+    emitEvent({ type: "handshake.start", id, address });
 
-        attempt++;
+    try {
+      packet = await retry(
+        async () => {
+          const requestPacket = Protocol.HANDSHAKE_PACKET;
+          logWithId.trace("-> handshake", packetFields(requestPacket));
 
-        const requestBuffer = requestPacket.toBuffer();
-        logWithId("#%d ->\n%H", attempt, requestBuffer);
+          attempt++;
 
-        return await socket.send(
-          requestBuffer,
-          (msg: Buffer) => {
-            logWithId("<-\n%H", msg);
-            return Packet.fromBuffer(msg);
-          },
-          (packet) => {
-            logWithId("<- %O", packet);
-            return Protocol.isHandshake(packet);
-          },
-          options.timeout,
-        );
-      },
-      options.attempts,
-      options.delay,
-    );
+          const requestBuffer = requestPacket.toBuffer();
+          logWithId.trace("-> packet", () => ({
+            attempt,
+            hex: hexdump(requestBuffer),
+          }));
+
+          return await transport.send(
+            requestBuffer,
+            (msg: Buffer) => {
+              logWithId.trace("<- packet", () => ({ hex: hexdump(msg) }));
+              return parsePacket(msg);
+            },
+            (packet) => {
+              logWithId.trace("<- handshake", packetFields(packet));
+              return Protocol.isHandshake(packet);
+            },
+            options.timeout,
+            signal,
+          );
+        },
+        Device.retryPolicy(options),
+        signal,
+      );
+    } catch (err) {
+      const cause = toMiioError(err);
+      const error = signal?.aborted
+        ? abortReason(signal)
+        : new HandshakeError(`Handshake failed: ${cause.message}`, {
+            address,
+            attempts: attempt,
+            cause,
+          });
+
+      emitEvent({
+        type: "handshake.end",
+        id,
+        address,
+        attempt,
+        duration: monotonicNow() - startedAt,
+        error: describeError(error),
+      });
+      throw error;
+    }
+
+    emitEvent({
+      type: "handshake.end",
+      id,
+      address,
+      deviceId: packet.deviceId,
+      attempt,
+      duration: monotonicNow() - startedAt,
+    });
 
     return {
       deviceId: packet.deviceId,
       timestamp: packet.timestamp,
+      checksum: packet.checksum,
     };
   }
 
@@ -136,10 +471,22 @@ class Device {
    * @param params - discover parameters
    * @param params.address - device IP address
    * @param params.token - device token
+   * @param params.transport - transport (UDP socket by default)
+   * @param params.queue - request queue options (see `RequestQueue`)
+   * @param params.sessions - session store (handshake is skipped if it has a fresh
+   *    session of the device with the same token)
+   * @param params.recovery - recovery options (see `Connection`)
+   * @param params.middlewares - call middlewares (see `use`)
+   * @param params.logging - logging options (see `configureLogging`)
+   * @param params.model - device model (see constructor)
+   * @param params.cache - property cache options (see constructor)
    * @param callOptions - additional options
    * @param callOptions.attempts - handshake attempts
-   * @param callOptions.delay - delay between attempts
+   * @param callOptions.delay - delay before the first retry
+   * @param callOptions.retry - retry policy (see `retry`)
    * @param callOptions.timeout - handshake response timeout
+   * @param callOptions.signal - abort signal
+   * @param callOptions.deadline - absolute deadline (time in milliseconds or `Date`)
    * @returns `Device` instance
    */
   static async discover(
@@ -147,48 +494,290 @@ class Device {
     callOptions?: CallOptions,
   ): Promise<Device> {
     const options = { ...Device.DEFAULT_CALL_OPTIONS, ...callOptions };
-    const socket = new Socket(params.address, Device.PORT);
+    const session = await Device.loadSession(params);
+
+    if (session) {
+      return Device.fromSession(session, {
+        transport: params.transport,
+        queue: params.queue,
+        sessions: params.sessions,
+        recovery: params.recovery,
+        middlewares: params.middlewares,
+        logging: params.logging,
+        model: params.model,
+        cache: params.cache,
+      });
+    }
+
+    const transport =
+      params.transport || new Socket(params.address, Device.PORT);
+
+    const { signal, dispose } = linkSignals([options.signal], options.deadline);
 
     let handshake;
 
-    // Exception is handled to be able to close socket in case of error.
+    // Exception is handled to be able to close transport in case of error.
     try {
-      handshake = await Device.handshake(socket, options);
+      handshake = await Device.handshake(
+        transport,
+        params.address,
+        new Log(params.logging, { address: params.address }),
+        options,
+        signal,
+      );
     } catch (err) {
-      await socket.close();
+      await transport.close();
       throw err;
+    } finally {
+      dispose();
     }
 
-    return new Device({
+    const device = new Device({
       deviceId: handshake.deviceId,
       token: params.token,
       address: params.address,
-      socket: socket,
+      transport: transport,
+      queue: params.queue,
+      sessions: params.sessions,
+      recovery: params.recovery,
+      middlewares: params.middlewares,
+      logging: params.logging,
+      model: params.model,
+      cache: params.cache,
       timestamp: handshake.timestamp,
       lastSeenAt: Date.now(),
     });
+    device.connection.succeeded();
+    await device.saveSession();
+
+    return device;
+  }
+
+  /**
+   * Connects factory-reset device to Wi-Fi network.
+   *
+   * @param params - provisioning parameters
+   * @param params.address - device address in its access point network
+   *    (`DEFAULT_AP_ADDRESS` by default)
+   * @param params.transport - transport (UDP socket by default)
+   * @param params.ssid - Wi-Fi network name
+   * @param params.passwd - Wi-Fi password
+   * @param params.uid - Xiaomi account identifier
+   * @param params.country - country domain
+   * @param params.tz - time zone
+   * @param params.logging - logging options (see `configureLogging`)
+   * @param callOptions - additional options of handshake and `miIO.config_router` call
+   * @returns token and identifier of the device
+   *
+   * @remarks
+   * Factory-reset device reveals its token in the handshake response, the token
+   * is used to send `miIO.config_router`. Throws `ProvisionError` if token is
+   * hidden (device is already provisioned) or device did not acknowledge
+   * the configuration. Device leaves its access point after provisioning,
+   * so its new address should be found with `scan`.
+   */
+  static async provision(
+    params: ProvisionParams,
+    callOptions?: CallOptions,
+  ): Promise<ProvisionResult> {
+    const address = params.address || Device.DEFAULT_AP_ADDRESS;
+    const options = { ...Device.DEFAULT_CALL_OPTIONS, ...callOptions };
+    const transport = params.transport || new Socket(address, Device.PORT);
+    const { signal, dispose } = linkSignals([options.signal], options.deadline);
+
+    let handshake;
+
+    try {
+      handshake = await Device.handshake(
+        transport,
+        address,
+        new Log(params.logging, { address }),
+        options,
+        signal,
+      );
+    } catch (err) {
+      await transport.close();
+      throw err;
+    } finally {
+      dispose();
+    }
+
+    const token = extractToken(handshake.checksum);
+
+    if (!token) {
+      await transport.close();
+      throw new ProvisionError(
+        "Device token is hidden, device is already provisioned (reset it to provision again)",
+        { address, deviceId: handshake.deviceId },
+      );
+    }
+
+    const device = new Device({
+      deviceId: handshake.deviceId,
+      token,
+      address,
+      transport,
+      logging: params.logging,
+      timestamp: handshake.timestamp,
+      lastSeenAt: Date.now(),
+    });
+
+    try {
+      const config: Record<string, unknown> = {
+        ssid: params.ssid,
+        passwd: params.passwd,
+      };
+      if (params.uid !== undefined) {
+        config.uid = params.uid;
+      }
+      if (params.country !== undefined) {
+        config.country_domain = params.country;
+      }
+      if (params.tz !== undefined) {
+        config.tz = params.tz;
+      }
+
+      const result = await device.call<Params, unknown>(
+        "miIO.config_router",
+        config,
+        callOptions,
+      );
+      const acknowledged = Array.isArray(result)
+        ? result[0] === "ok"
+        : result === "ok";
+
+      if (!acknowledged) {
+        throw new ProvisionError(
+          `Device did not acknowledge Wi-Fi configuration: ${JSON.stringify(
+            result,
+          )}`,
+          {
+            method: "miIO.config_router",
+            address,
+            deviceId: handshake.deviceId,
+          },
+        );
+      }
+    } finally {
+      await device.destroy();
+    }
+
+    return { address, deviceId: handshake.deviceId, token };
+  }
+
+  /**
+   * Returns session which can be used instead of handshake.
+   *
+   * @param params - discover parameters
+   * @returns stored session or `null` if there is no session, it is made
+   *    with another token or it is too old
+   */
+  private static async loadSession(
+    params: DiscoverParams,
+  ): Promise<DeviceSession | null> {
+    if (!params.sessions) {
+      return null;
+    }
+
+    let session;
+
+    try {
+      session = await params.sessions.get(params.address);
+    } catch (err) {
+      new Log(params.logging, { address: params.address }).warn(
+        "unable to load session",
+        { error: String(err) },
+      );
+      return null;
+    }
+
+    if (
+      !session ||
+      session.token !== params.token ||
+      Date.now() - session.lastSeenAt > Device.MAX_CALL_INTERVAL * 1000
+    ) {
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Creates device from the session snapshot without handshake.
+   *
+   * @param session - session returned by `toJSON`
+   * @param params - other device parameters (see constructor)
+   * @returns `Device` instance
+   *
+   * @remarks
+   * If the session is older than `MAX_CALL_INTERVAL` seconds handshake
+   * is made before the first call.
+   */
+  static fromSession(
+    session: DeviceSession,
+    params?: Omit<DeviceParams, keyof DeviceSession>,
+  ): Device {
+    return new Device({ ...params, ...session });
+  }
+
+  /**
+   * Returns serializable session snapshot (see `fromSession`).
+   *
+   * @returns device session
+   */
+  toJSON(): DeviceSession {
+    return {
+      address: this.address,
+      token: this.token,
+      deviceId: this.id,
+      timestamp: this.clock.lastTimestamp,
+      lastSeenAt: this.lastSeenAt,
+    };
+  }
+
+  /**
+   * Saves session to the session store (if any).
+   *
+   * @remarks
+   * Session is an optimization, so store errors are only logged.
+   */
+  private async saveSession(): Promise<void> {
+    try {
+      await this.sessions?.set(this.toJSON());
+    } catch (err) {
+      this.log.warn("unable to save session", { error: String(err) });
+    }
   }
 
   /**
    * Makes handshake.
    *
    * @param options - call options
+   * @param signal - abort signal of the caller
    * @returns `Promise` with handshake result
    *
    * @remarks
    * If called simultaneous do handshake only once and returns the same
-   * promise for all callers
+   * promise for all callers. Shared handshake is aborted only when device
+   * is destroyed, abort of the caller just stops waiting for it.
    *
    */
-  private handshake(options?: CallOptions): Promise<HandshakeResult> {
+  private handshake(
+    options?: CallOptions,
+    signal?: AbortSignalLike,
+  ): Promise<HandshakeResult> {
     if (!this.handshakePromise) {
-      this.handshakePromise = Device.handshake(this.socket, options).finally(
-        () => {
-          this.handshakePromise = null;
-        },
-      );
+      this.handshakePromise = Device.handshake(
+        this.transport,
+        this.address,
+        this.log,
+        options,
+        this.aborter,
+      ).finally(() => {
+        this.handshakePromise = null;
+      });
     }
-    return this.handshakePromise;
+    return abortable(this.handshakePromise, signal);
   }
 
   /**
@@ -198,97 +787,680 @@ class Device {
    * @param params - method parameters
    * @param callOptions - additional options
    * @param callOptions.attempts - call attempts
-   * @param callOptions.delay - delay between attempts
+   * @param callOptions.delay - delay before the first retry
+   * @param callOptions.retry - retry policy (see `retry`), by default only
+   *    timeouts and socket errors are retried with exponential backoff
    * @param callOptions.timeout - call response timeout
+   * @param callOptions.priority - queue priority (requests with higher priority are sent first)
+   * @param callOptions.signal - abort signal
+   * @param callOptions.deadline - absolute deadline (time in milliseconds or `Date`)
+   * @param callOptions.fresh - read properties from the device even if they are cached
+   * @returns result `method` call
+   *
+   * @remarks
+   * Calls pass through middlewares (see `use`) and property cache (if enabled)
+   * and then are put into per-device queue which limits number of requests in flight.
+   * Aborted call is rejected with `AbortError` and call which missed the deadline
+   * with `TimeoutError`.
+   */
+  call<ParamsType extends Params, ResultType>(
+    method: string,
+    params?: ParamsType,
+    callOptions?: CallOptions,
+  ): Promise<ResultType> {
+    const request = {
+      device: this,
+      method,
+      params,
+      options: { ...callOptions },
+    };
+
+    return runMiddlewares([...this.middlewares], request, (request) =>
+      this.cache
+        ? this.cache.handle(request, (request) => this.enqueue(request))
+        : this.enqueue(request),
+    ) as Promise<ResultType>;
+  }
+
+  /**
+   * Adds middleware which wraps every call of the device.
+   *
+   * @param middleware - middleware
+   * @returns the same device
+   *
+   * @remarks
+   * Middlewares are executed in order of registration. Middleware receives
+   * request (`device`, `method`, `params` and call `options`) and `next` function.
+   * It may pass modified request to `next`, return result without calling `next`
+   * or transform result and errors of `next`. Middleware which is already
+   * added is not added again.
+   */
+  use(middleware: Middleware): this {
+    if (!this.middlewares.includes(middleware)) {
+      this.middlewares.push(middleware);
+    }
+    return this;
+  }
+
+  /**
+   * Puts request into the queue (see `call`).
+   *
+   * @param request - request passed through middlewares
+   * @returns result of the call
+   */
+  private enqueue(request: CallRequest): Promise<unknown> {
+    const { method, params, options } = request;
+    const { signal, dispose } = linkSignals(
+      [options.signal, this.aborter],
+      options.deadline,
+    );
+    const operationId = randomString();
+    const startedAt = monotonicNow();
+    const event = {
+      id: operationId,
+      address: this.address,
+      deviceId: this.id,
+      method,
+    };
+
+    emitEvent({ type: "call.start", ...event });
+
+    return this.queue
+      .push(
+        () => this.send(method, params, options, signal, operationId),
+        options.priority,
+        signal,
+      )
+      .then(
+        (result) => {
+          emitEvent({
+            type: "call.end",
+            ...event,
+            duration: monotonicNow() - startedAt,
+          });
+          return result;
+        },
+        (err) => {
+          emitEvent({
+            type: "call.end",
+            ...event,
+            duration: monotonicNow() - startedAt,
+            error: describeError(err),
+          });
+          throw err;
+        },
+      )
+      .finally(dispose);
+  }
+
+  /**
+   * Sends request to the device bypassing the queue (see `call`).
+   *
+   * @param method - device method to call
+   * @param params - method parameters
+   * @param callOptions - additional options
+   * @param signal - abort signal
+   * @param operationId - identifier of the call in logs and instrumentation events
    * @returns result `method` call
    */
-  async call<ParamsType extends Array<unknown>, ResultType>(
+  private async send<ParamsType extends Params, ResultType>(
     method: string,
     params?: ParamsType,
     callOptions?: CallOptions,
+    signal?: AbortSignalLike,
+    operationId = randomString(),
   ): Promise<ResultType> {
-    const logWithId = this.log.extend(randomString());
+    const logWithId = this.log.child({ operation: operationId });
 
     const options = { ...Device.DEFAULT_CALL_OPTIONS, ...callOptions };
 
+    // Context attached to all errors of the call.
+    const details = {
+      method,
+      params,
+      address: this.address,
+      deviceId: this.id,
+    };
+
     const secondsPassed = Math.floor((Date.now() - this.lastSeenAt) / 1000);
 
     if (secondsPassed > Device.MAX_CALL_INTERVAL) {
-      logWithId("-> handshake");
+      logWithId.debug("-> handshake");
 
-      const { timestamp } = await this.handshake(options);
-      this.timestamp = timestamp;
-      this.lastSeenAt = Date.now();
+      try {
+        const { timestamp } = await this.handshake(options, signal);
+        this.clock.sync(timestamp);
+        this.lastSeenAt = Date.now();
+        await this.saveSession();
+      } catch (err) {
+        throw this.recover(toMiioError(err).withDetails(details), signal);
+      }
     }
 
     const id = randomInt();
     const body = { id, method, params };
 
-    logWithId("-> %O", body);
+    this.sentIds.push(id);
+    if (this.sentIds.length > Device.MAX_SENT_IDS) {
+      this.sentIds.shift();
+    }
+
+    logWithId.debug("-> request", body);
 
-    const requestPacket = this.protocol.packRequest(body, this.timestamp);
+    const requestPacket = this.protocol.packRequest(body, this.clock.now());
 
-    logWithId("-> %O", requestPacket);
+    logWithId.trace("-> request", packetFields(requestPacket));
 
     const requestBuffer = requestPacket.toBuffer();
 
     let attempt = 0;
-    const { responsePacket, response } = await retry(
-      async () => {
-        attempt++;
-        logWithId("#%d ->\n%H", attempt, requestBuffer);
+    let responsePacket, response;
 
-        return await this.socket.send(
-          requestBuffer,
-          (responseBuffer: Buffer) => {
-            logWithId("<-\n%H", responseBuffer);
+    try {
+      ({ responsePacket, response } = await retry(
+        async () => {
+          attempt++;
+          logWithId.trace("-> packet", () => ({
+            attempt,
+            hex: hexdump(requestBuffer),
+          }));
 
-            const responsePacket = Packet.fromBuffer(responseBuffer);
+          const attemptStartedAt = monotonicNow();
+          const event = {
+            id: operationId,
+            address: this.address,
+            deviceId: this.id,
+            method,
+            attempt,
+          };
 
-            logWithId("<- %O", responsePacket);
+          if (attempt > 1) {
+            emitEvent({ type: "call.retry", ...event });
+          }
+          emitEvent({ type: "call.attempt", ...event });
 
-            const response = !Protocol.isHandshake(responsePacket)
-              ? this.protocol.unpackResponse<ResultType>(responsePacket)
-              : undefined;
-            return { responsePacket, response };
-          },
-          ({ response }) => {
-            logWithId("<- %O", response);
+          const result = await this.transport
+            .send(
+              requestBuffer,
+              (responseBuffer: Buffer) => {
+                logWithId.trace("<- packet", () => ({
+                  hex: hexdump(responseBuffer),
+                }));
 
-            if (response?.id === id) {
-              return true;
-            }
-            return false;
-          },
-          options.timeout,
-        );
-      },
-      options.attempts,
-      options.delay,
-    );
+                const responsePacket = parsePacket(responseBuffer);
+
+                logWithId.trace("<- response", packetFields(responsePacket));
+
+                const response = !Protocol.isHandshake(responsePacket)
+                  ? this.protocol.unpackResponse<ResultType>(responsePacket)
+                  : undefined;
+                return { responsePacket, response };
+              },
+              ({ response }) => {
+                logWithId.debug("<- response", { method, ...response });
 
-    this.timestamp = responsePacket.timestamp;
-    this.lastSeenAt = Date.now();
+                if (response?.id === id) {
+                  return true;
+                }
+                return false;
+              },
+              options.timeout,
+              signal,
+            )
+            .catch((err) => {
+              const duration = monotonicNow() - attemptStartedAt;
+              if (err instanceof TimeoutError) {
+                emitEvent({ type: "call.timeout", ...event, duration });
+              } else if (err instanceof ChecksumError) {
+                emitEvent({ type: "call.checksum", ...event, duration });
+              }
+              throw err;
+            });
+
+          emitEvent({
+            type: "call.response",
+            ...event,
+            duration: monotonicNow() - attemptStartedAt,
+          });
+
+          return result;
+        },
+        Device.retryPolicy(options),
+        signal,
+      ));
+    } catch (err) {
+      throw this.recover(
+        toMiioError(err).withDetails({ ...details, attempts: attempt }),
+        signal,
+      );
+    }
+
+    this.updateClock(responsePacket.timestamp);
+    this.connection.succeeded();
 
     if (!response) {
-      throw new DeviceError("Empty response");
+      throw new MalformedResponseError("Empty response", {
+        ...details,
+        attempts: attempt,
+      });
     }
 
     if ("error" in response) {
       const err = response.error;
       throw new DeviceError(
         `Device responded with error: "${err.message}". Code: ${err.code}`,
+        { ...details, code: err.code, attempts: attempt },
       );
     }
 
+    if (method === "miIO.info") {
+      this.updateModel(response.result);
+    }
+
     return response.result;
   }
 
+  /**
+   * Remembers device model reported by `miIO.info`.
+   *
+   * @param info - result of `miIO.info`
+   */
+  private updateModel(info: unknown): void {
+    const model = (info as { model?: unknown } | null)?.model;
+
+    if (typeof model === "string" && model && model !== this.model) {
+      this.model = model;
+      this.batcher.setKey(model);
+    }
+  }
+
+  /**
+   * Returns state of the connection to the device.
+   *
+   * @returns connection state
+   */
+  get state(): ConnectionState {
+    return this.connection.state;
+  }
+
+  /**
+   * Updates connection state after failed call and starts recovery.
+   *
+   * @param err - call error
+   * @param signal - abort signal of the call
+   * @returns error which should be thrown to the caller
+   *
+   * @remarks
+   * Timeouts force handshake before the next call, device which is offline
+   * is looked for at another address and persistent checksum failures
+   * are reported as `TokenMismatchError`. Calls aborted by the caller
+   * (including missed deadline) don't affect connection state.
+   */
+  private recover(err: MiioError, signal?: AbortSignalLike): MiioError {
+    if (this.aborter.aborted || signal?.aborted) {
+      return err;
+    }
+
+    switch (this.connection.failed(err)) {
+      case "handshake":
+        this.lastSeenAt = 0;
+        return err;
+      case "rescan":
+        this.lastSeenAt = 0;
+        this.relocate();
+        return err;
+      case "token": {
+        const tokenErr = new TokenMismatchError(
+          "Responses have invalid checksum, device token has probably changed",
+          {
+            method: err.method,
+            params: err.params,
+            attempts: err.attempts,
+            address: err.address,
+            deviceId: err.deviceId,
+            cause: err,
+          },
+        );
+        this.emit("tokenMismatch", tokenErr);
+        return tokenErr;
+      }
+      default:
+        return err;
+    }
+  }
+
+  /**
+   * Looks for the device at another address and moves device there.
+   *
+   * @remarks
+   * Only transports which support address change are moved.
+   * Only one scan runs at a time, errors are only logged.
+   */
+  private async relocate(): Promise<void> {
+    const scanOptions = this.connection.scanOptions();
+
+    if (this.relocating || !scanOptions || !this.transport.setAddress) {
+      return;
+    }
+
+    this.relocating = true;
+    this.log.info("looking for device", { deviceId: this.id });
+
+    try {
+      for await (const result of scanIterator({
+        ...scanOptions,
+        signal: this.aborter,
+      })) {
+        if (result.deviceId !== this.id) {
+          continue;
+        }
+        if (result.address !== this.address) {
+          this.moveTo(result.address);
+        }
+        break;
+      }
+    } catch (err) {
+      this.log.warn("scan failed", { error: String(err) });
+    } finally {
+      this.relocating = false;
+    }
+  }
+
+  /**
+   * Moves device to another address.
+   *
+   * @param address - new device IP address
+   */
+  private moveTo(address: string): void {
+    const previous = this.address;
+
+    this.log.info("moved", { to: address });
+    this.address = address;
+    this.log = new Log(this.logging, { address });
+    this.transport.setAddress?.(address);
+    // Moved device must be handshaked at the new address.
+    this.lastSeenAt = 0;
+    this.emit("moved", address, previous);
+    // Session of the old address is stale (another device may take it).
+    this.sessions
+      ?.delete(previous)
+      .catch((err) =>
+        this.log.warn("unable to delete session", { error: String(err) }),
+      );
+    this.saveSession();
+  }
+
+  /**
+   * Forces handshake before the next call (e.g. after device reboot).
+   */
+  resetSession(): void {
+    this.lastSeenAt = 0;
+  }
+
+  /**
+   * Returns current device time estimated from the last received device
+   * timestamp and the time passed since then.
+   *
+   * @returns device timestamp in seconds
+   */
+  getDeviceTime(): number {
+    return this.clock.now();
+  }
+
+  /**
+   * Updates device clock from the received packet timestamp.
+   *
+   * @param timestamp - device timestamp
+   *
+   * @remarks
+   * If device clock jumped (e.g. device rebooted) handshake is made
+   * before the next call. Replayed responses are never considered jumps.
+   */
+  private updateClock(timestamp: number): void {
+    // Recorded timestamps keep gaps of the recording, not of the playback.
+    if (this.clock.update(timestamp) || this.transport.replayed) {
+      this.lastSeenAt = Date.now();
+      return;
+    }
+
+    this.log.info("<- device clock jumped", { timestamp });
+    // Makes session stale to force handshake.
+    this.lastSeenAt = 0;
+  }
+
+  /**
+   * Handles message which is not a response to any pending call.
+   *
+   * @param msg - binary message
+   *
+   * @remarks
+   * Emits `message` (and `event` for `event.*` methods) for device-pushed
+   * messages and `late` for late or duplicate responses to earlier calls.
+   */
+  private receive(msg: Buffer): void {
+    let packet, payload;
+
+    try {
+      packet = Packet.fromBuffer(msg);
+
+      if (Protocol.isHandshake(packet)) {
+        this.log.debug("<- unexpected handshake");
+        return;
+      }
+
+      payload = this.protocol.unpackResponse<unknown>(packet) as
+        | Response<unknown>
+        | Request<Params>;
+    } catch (err) {
+      this.log.debug("<- unable to unpack message", { error: String(err) });
+      return;
+    }
+
+    this.updateClock(packet.timestamp);
+
+    this.log.debug("<- message", { ...payload });
+
+    if ("method" in payload) {
+      const message = {
+        id: payload.id,
+        method: payload.method,
+        params: payload.params,
+      };
+      // Pushed values may differ from the cached ones.
+      if (
+        message.method === "props" &&
+        message.params &&
+        typeof message.params === "object"
+      ) {
+        this.cache?.invalidate(Object.keys(message.params));
+      }
+
+      this.emit("message", message);
+
+      if (message.method.startsWith("event.")) {
+        this.emit("event", {
+          name: message.method.slice("event.".length),
+          params: message.params,
+        });
+      }
+      return;
+    }
+
+    if (this.sentIds.includes(payload.id)) {
+      this.emit("late", payload);
+      return;
+    }
+
+    this.log.debug("<- unexpected response", { ...payload });
+  }
+
+  /**
+   * Returns values of MIoT properties.
+   *
+   * @param props - properties to get
+   * @param props.did - identifier used to match results (device id by default)
+   * @param props.siid - service identifier
+   * @param props.piid - property identifier
+   * @param callOptions - additional options (see `call`)
+   * @returns values of `props` in the same order
+   *
+   * @remarks
+   * Throws `MiotError` if device returned non-zero code for any property.
+   */
+  async getProperties<ValuesType extends Array<unknown> = unknown[]>(
+    props: MiotProperty[],
+    callOptions?: CallOptions,
+  ): Promise<ValuesType> {
+    const request = withDid(props, String(this.id));
+    const results = await this.call<typeof request, MiotPropertyResult[]>(
+      "get_properties",
+      request,
+      callOptions,
+    );
+
+    return matchMiotResults(request, results).map(
+      (result) => result.value,
+    ) as ValuesType;
+  }
+
+  /**
+   * Sets values of MIoT properties.
+   *
+   * @param props - properties to set
+   * @param props.did - identifier used to match results (device id by default)
+   * @param props.siid - service identifier
+   * @param props.piid - property identifier
+   * @param props.value - new value
+   * @param callOptions - additional options (see `call`)
+   *
+   * @remarks
+   * Throws `MiotError` if device returned non-zero code for any property.
+   */
+  async setProperties(
+    props: MiotPropertyValue[],
+    callOptions?: CallOptions,
+  ): Promise<void> {
+    const request = withDid(props, String(this.id));
+    const results = await this.call<typeof request, MiotPropertyResult[]>(
+      "set_properties",
+      request,
+      callOptions,
+    );
+
+    matchMiotResults(request, results);
+  }
+
+  /**
+   * Calls MIoT action.
+   *
+   * @param action - action to call
+   * @param action.did - device identifier (device id by default)
+   * @param action.siid - service identifier
+   * @param action.aiid - action identifier
+   * @param action.in - action input parameters
+   * @param callOptions - additional options (see `call`)
+   * @returns action output parameters
+   *
+   * @remarks
+   * Throws `MiotError` if device returned non-zero code.
+   */
+  async callAction<OutType extends Array<unknown> = unknown[]>(
+    action: MiotAction,
+    callOptions?: CallOptions,
+  ): Promise<OutType> {
+    const request = {
+      ...action,
+      did: action.did ?? String(this.id),
+      in: action.in || [],
+    };
+    const result = await this.call<typeof request, MiotActionResult<OutType>>(
+      "action",
+      request,
+      callOptions,
+    );
+
+    checkMiotResult({ aiid: action.aiid, ...result }, action.siid);
+
+    return result.out || ([] as unknown[] as OutType);
+  }
+
+  /**
+   * Returns values of properties (using `get_prop` method).
+   *
+   * @param props - property names
+   * @param options - batch and call options
+   * @param options.chunkSize - max number of properties in one request
+   *    (learned per model by default)
+   * @param options.window - time in milliseconds during which concurrent
+   *    `getProps` calls are coalesced into one request (0 disables coalescing)
+   * @returns values of properties by name (`null` for properties device
+   *    returned as `null` or didn't return)
+   *
+   * @remarks
+   * Long property lists are split into chunks. If device returns less values
+   * than requested or fails a chunk, the chunk is split and the smaller size
+   * is remembered for the device model. Model which is not passed to
+   * the constructor is requested with `miIO.info` once (chunk size is learned
+   * per device if device doesn't report it). Coalesced calls are made with
+   * call options of the first call.
+   */
+  async getProps(
+    props: string[],
+    options?: GetPropsOptions,
+  ): Promise<PropertyValues> {
+    const { chunkSize, window, signal, ...callOptions } = options || {};
+
+    if (!this.model) {
+      this.modelRequest =
+        this.modelRequest ||
+        this.call("miIO.info", [], { priority: Device.PRIORITY_LOW }).catch(
+          () => undefined,
+        );
+      await abortable(this.modelRequest, signal);
+    }
+
+    // Uncoalesced call can be aborted as any other call.
+    if (window === 0 || options?.fresh) {
+      return this.batcher.read(props, { chunkSize, window }, options);
+    }
+
+    return this.batcher.read(props, { chunkSize, window }, callOptions, signal);
+  }
+
+  /**
+   * Starts polling of properties (using `get_prop` method).
+   *
+   * @param props - property names
+   * @param watchOptions - watch options
+   * @param watchOptions.interval - poll interval in milliseconds
+   * @param watchOptions.maxInterval - max poll interval while device is unreachable
+   * @returns function which stops watching
+   *
+   * @remarks
+   * Emits `change` event for each changed property and `online`/`offline`
+   * events when device reachability changes. Other poll errors (e.g. device
+   * error) are emitted as `watchError` events. All watchers share a single poll.
+   */
+  watch(props: string[], watchOptions?: WatchOptions): () => void {
+    return this.poller.subscribe(props, watchOptions);
+  }
+
   /**
    * Cleans resources associated with the device.
+   *
+   * @remarks
+   * Watchers are stopped and all in-flight operations (calls, retries,
+   * handshakes) are aborted with `AbortError`. Session is saved to the
+   * session store (if any).
    */
   async destroy(): Promise<void> {
-    await this.socket.close();
+    const err = new AbortError("Device is destroyed");
+
+    this.poller.stop();
+    this.aborter.abort(err);
+    this.queue.clear(err);
+    await this.saveSession();
+    await this.transport.close();
   }
 }
 
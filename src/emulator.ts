@@ -0,0 +1,363 @@
+import dgram from "dgram";
+import Protocol, { Params, Request, Response } from "./protocol";
+import Packet from "./packet";
+import logger, { Log } from "./logger";
+import { SocketError, EmulatorError } from "./errors";
+import { randomInt } from "./utils";
+
+/**
+ * Handles device method call and returns its result.
+ * Thrown error is sent to the client as error response
+ * (`EmulatorError` may be used to specify error code).
+ */
+export type EmulatorHandler = (
+  params: Params,
+  request: Request<Params>,
+) => unknown | Promise<unknown>;
+
+export type EmulatorParams = {
+  token: string;
+  deviceId: number;
+  timestamp?: number;
+  address?: string;
+  port?: number;
+  revealToken?: boolean;
+  handlers?: Record<string, EmulatorHandler>;
+  properties?: Record<string, unknown>;
+};
+
+type MiotPropertyRequest = {
+  did: string;
+  siid: number;
+  piid: number;
+  value?: unknown;
+};
+
+class Emulator {
+  static PORT = 54321;
+
+  static ERROR_METHOD_NOT_FOUND = -32601;
+  static ERROR_INVALID_PARAMS = -32602;
+
+  /**
+   * Emulated device identifier.
+   */
+  deviceId: number;
+
+  /**
+   * Declarative property table.
+   *
+   * @remarks
+   * Keys are property names for `get_prop`/`set_<name>` methods and
+   * `"<siid>.<piid>"` for MIoT `get_properties`/`set_properties` methods.
+   */
+  properties: Record<string, unknown>;
+
+  private protocol: Protocol;
+  private token: Buffer;
+  private revealToken: boolean;
+  private handlers: Record<string, EmulatorHandler>;
+  private address: string;
+  private port: number;
+  private timestamp: number;
+  private startedAt: number;
+  private socket: dgram.Socket | null;
+  private clients: Map<string, dgram.RemoteInfo>;
+  private log: Log;
+
+  /**
+   * Represents a local miIO device emulator (device side of the protocol).
+   *
+   * @param params - emulator parameters
+   * @param params.token - device token
+   * @param params.deviceId - device identifier
+   * @param params.timestamp - device timestamp at start
+   * @param params.address - address to bind to
+   * @param params.port - port to bind to (0 for random port)
+   * @param params.revealToken - send token in handshake response as unprovisioned devices do
+   * @param params.handlers - method handlers
+   * @param params.properties - declarative property table
+   *
+   * @remarks
+   * Methods are looked up in `handlers` first and then in `properties`.
+   */
+  constructor(params: EmulatorParams) {
+    this.deviceId = params.deviceId;
+    this.token = Buffer.from(params.token, "hex");
+    this.protocol = new Protocol(params.deviceId, this.token);
+    this.revealToken = params.revealToken || false;
+    this.handlers = params.handlers || {};
+    this.properties = params.properties || {};
+    this.address = params.address || "0.0.0.0";
+    this.port = params.port ?? Emulator.PORT;
+    this.timestamp = params.timestamp || 1;
+    this.startedAt = Date.now();
+    this.socket = null;
+    this.clients = new Map();
+    this.log = logger.child({
+      module: "emulator",
+      deviceId: params.deviceId,
+    });
+  }
+
+  /**
+   * Returns current device timestamp.
+   *
+   * @returns seconds passed since the start plus initial timestamp
+   */
+  getTimestamp(): number {
+    return this.timestamp + Math.floor((Date.now() - this.startedAt) / 1000);
+  }
+
+  /**
+   * Handles raw client message.
+   *
+   * @param msg - binary client message
+   * @returns binary response or `null` if message must be ignored
+   */
+  async handle(msg: Buffer): Promise<Buffer | null> {
+    let packet;
+
+    try {
+      packet = Packet.fromBuffer(msg);
+    } catch (err) {
+      this.log.debug("<- invalid packet", { error: String(err) });
+      return null;
+    }
+
+    if (Protocol.isHandshake(packet)) {
+      this.log.debug("<- handshake");
+      return Protocol.packHandshake(
+        this.deviceId,
+        this.getTimestamp(),
+        this.revealToken ? this.token : undefined,
+      ).toBuffer();
+    }
+
+    let request;
+
+    try {
+      request = this.protocol.unpackRequest<Params>(packet);
+    } catch (err) {
+      // Real devices silently ignore packets with invalid checksum.
+      this.log.debug("<- unable to unpack request", { error: String(err) });
+      return null;
+    }
+
+    this.log.debug("<- request", { ...request });
+
+    const response = await this.dispatch(request);
+
+    this.log.debug("-> response", { method: request.method, ...response });
+
+    return this.protocol.packResponse(response, this.getTimestamp()).toBuffer();
+  }
+
+  /**
+   * Returns binary message device pushes on its own (e.g. `props` or `event.*`).
+   *
+   * @param method - message method
+   * @param params - message params
+   * @returns binary message
+   */
+  createMessage(method: string, params: Params): Buffer {
+    const message = { id: randomInt(), method, params };
+    this.log.debug("-> message", message);
+    return this.protocol.packRequest(message, this.getTimestamp()).toBuffer();
+  }
+
+  /**
+   * Pushes message to all clients which have sent requests to the emulator.
+   *
+   * @param method - message method
+   * @param params - message params
+   */
+  async notify(method: string, params: Params): Promise<void> {
+    const socket = this.socket;
+
+    if (!socket) {
+      return;
+    }
+
+    const msg = this.createMessage(method, params);
+
+    await Promise.all(
+      [...this.clients.values()].map(
+        (client) =>
+          new Promise<void>((resolve) => {
+            socket.send(msg, client.port, client.address, () => resolve());
+          }),
+      ),
+    );
+  }
+
+  /**
+   * Calls handler of the requested method.
+   *
+   * @param request - client request
+   * @returns response to the `request`
+   */
+  private async dispatch(request: Request<Params>): Promise<Response<unknown>> {
+    const params = request.params || [];
+    const handler =
+      this.handlers[request.method] || this.propertyHandler(request.method);
+
+    if (!handler) {
+      return {
+        id: request.id,
+        error: {
+          code: Emulator.ERROR_METHOD_NOT_FOUND,
+          message: "Method not found.",
+        },
+      };
+    }
+
+    try {
+      const result = await handler(params, request);
+      return { id: request.id, result };
+    } catch (err) {
+      const code = err instanceof EmulatorError ? err.code : -1;
+      const message = err instanceof Error ? err.message : String(err);
+      return { id: request.id, error: { code, message } };
+    }
+  }
+
+  /**
+   * Returns handler for the method backed by the property table.
+   *
+   * @param method - method name
+   * @returns handler or `null` if method is not supported
+   */
+  private propertyHandler(method: string): EmulatorHandler | null {
+    switch (method) {
+      case "get_prop":
+        return (params) => {
+          if (!Array.isArray(params)) {
+            throw new EmulatorError(
+              "Invalid params.",
+              Emulator.ERROR_INVALID_PARAMS,
+            );
+          }
+          return params.map((name) => this.properties[String(name)] ?? null);
+        };
+
+      case "get_properties":
+        return (params) =>
+          (params as MiotPropertyRequest[]).map(({ did, siid, piid }) => {
+            const key = `${siid}.${piid}`;
+            return key in this.properties
+              ? { did, siid, piid, code: 0, value: this.properties[key] }
+              : { did, siid, piid, code: -4003 };
+          });
+
+      case "set_properties":
+        return (params) =>
+          (params as MiotPropertyRequest[]).map(
+            ({ did, siid, piid, value }) => {
+              const key = `${siid}.${piid}`;
+              if (!(key in this.properties)) {
+                return { did, siid, piid, code: -4003 };
+              }
+              this.properties[key] = value;
+              return { did, siid, piid, code: 0 };
+            },
+          );
+    }
+
+    const name = method.startsWith("set_") ? method.slice(4) : null;
+
+    if (name && name in this.properties) {
+      return (params) => {
+        if (!Array.isArray(params) || params.length === 0) {
+          throw new EmulatorError(
+            "Invalid params.",
+            Emulator.ERROR_INVALID_PARAMS,
+          );
+        }
+        this.properties[name] = params[0];
+        return ["ok"];
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Binds UDP socket and starts answering requests.
+   *
+   * @returns `Promise` which will be resolved when socket is bound
+   */
+  listen(): Promise<void> {
+    if (this.socket) {
+      return Promise.resolve();
+    }
+
+    const socket = dgram.createSocket("udp4");
+    this.socket = socket;
+
+    socket.on("message", (msg: Buffer, rinfo: dgram.RemoteInfo) => {
+      this.clients.set(`${rinfo.address}:${rinfo.port}`, rinfo);
+      this.handle(msg)
+        .then((response) => {
+          if (response) {
+            socket.send(response, rinfo.port, rinfo.address);
+          }
+        })
+        .catch((err) =>
+          this.log.error("unable to handle message", { error: String(err) }),
+        );
+    });
+
+    return new Promise((resolve, reject) => {
+      const onError = (err: Error): void => {
+        this.socket = null;
+        reject(new SocketError(err.message));
+      };
+
+      socket.once("error", onError);
+      socket.bind(this.port, this.address, () => {
+        socket.removeListener("error", onError);
+        socket.on("error", (err) =>
+          this.log.error("socket error", { error: String(err) }),
+        );
+        this.port = socket.address().port;
+        this.log.info("listening", {
+          address: this.address,
+          port: this.port,
+        });
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Returns port emulator is bound to.
+   *
+   * @returns port number
+   */
+  getPort(): number {
+    return this.port;
+  }
+
+  /**
+   * Stops answering requests and closes socket.
+   */
+  close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+
+    return new Promise((resolve) => {
+      if (!socket) {
+        resolve();
+        return;
+      }
+      try {
+        socket.close(() => resolve());
+      } catch (err) {
+        resolve();
+      }
+    });
+  }
+}
+
+export default Emulator;
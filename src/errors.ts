@@ -1,26 +1,252 @@
 /**
- * Represents miIO protocol error.
+ * Codes of errors which are not reported by the device itself.
+ * Errors reported by the device (`DeviceError`) carry device error code.
+ */
+export const ErrorCode = {
+  UNKNOWN: -1,
+  SOCKET: -10001,
+  TIMEOUT: -10002,
+  PROTOCOL: -10003,
+  CHECKSUM: -10004,
+  MALFORMED_RESPONSE: -10005,
+  HANDSHAKE: -10006,
+  QUEUE: -10007,
+  CLOSED: -10008,
+  ABORTED: -10009,
+  VALIDATION: -10010,
+  PROFILE: -10011,
+  PROVISION: -10012,
+  OTA: -10013,
+};
+
+/**
+ * Context of the failed operation.
+ */
+export type ErrorDetails = {
+  code?: number;
+  method?: string;
+  params?: unknown;
+  attempts?: number;
+  address?: string;
+  deviceId?: number;
+  cause?: Error;
+};
+
+/**
+ * Base class of all errors of the library.
  */
-export class ProtocolError extends Error {
-  constructor(message: string) {
+export class MiioError extends Error {
+  /**
+   * Device error code or one of `ErrorCode`.
+   */
+  code: number;
+
+  /**
+   * Called method.
+   */
+  method?: string;
+
+  /**
+   * Parameters of called method.
+   */
+  params?: unknown;
+
+  /**
+   * Number of made attempts.
+   */
+  attempts?: number;
+
+  /**
+   * Device IP address.
+   */
+  address?: string;
+
+  /**
+   * Device identifier.
+   */
+  deviceId?: number;
+
+  /**
+   * Error which caused this error.
+   */
+  cause?: Error;
+
+  constructor(message: string, details?: ErrorDetails) {
     super(message);
+    this.name = new.target.name;
+    this.code = ErrorCode.UNKNOWN;
+    Object.assign(this, details);
+  }
+
+  /**
+   * Fills context fields which are not set yet.
+   *
+   * @param details - context of the failed operation
+   * @returns the same error
+   */
+  withDetails(details: ErrorDetails): this {
+    for (const [key, value] of Object.entries(details)) {
+      const field = key as keyof ErrorDetails;
+      if (this[field] === undefined && value !== undefined) {
+        Object.assign(this, { [field]: value });
+      }
+    }
+    return this;
   }
 }
 
 /**
- * Represents miIO device error.
+ * Represents miIO protocol error.
  */
-export class DeviceError extends Error {
-  constructor(message: string) {
-    super(message);
+export class ProtocolError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.PROTOCOL, ...details });
+  }
+}
+
+/**
+ * Represents packet with invalid checksum (most likely token is wrong).
+ */
+export class ChecksumError extends ProtocolError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.CHECKSUM, ...details });
+  }
+}
+
+/**
+ * Represents persistent checksum failures (device token has probably changed).
+ */
+export class TokenMismatchError extends ChecksumError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, details);
+  }
+}
+
+/**
+ * Represents response which can't be parsed or doesn't have expected format.
+ */
+export class MalformedResponseError extends ProtocolError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.MALFORMED_RESPONSE, ...details });
+  }
+}
+
+/**
+ * Represents failed handshake (`cause` contains the reason).
+ */
+export class HandshakeError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.HANDSHAKE, ...details });
+  }
+}
+
+/**
+ * Represents miIO device error (`code` is the code device responded with).
+ */
+export class DeviceError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, details);
   }
 }
 
 /**
  * Represents socket error.
  */
-export class SocketError extends Error {
-  constructor(message: string) {
-    super(message);
+export class SocketError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.SOCKET, ...details });
+  }
+}
+
+/**
+ * Represents response timeout.
+ */
+export class TimeoutError extends SocketError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.TIMEOUT, ...details });
+  }
+}
+
+/**
+ * Represents MIoT property or action error (non-zero `code` in device response).
+ */
+export class MiotError extends DeviceError {
+  siid: number;
+  piid?: number;
+  aiid?: number;
+
+  constructor(
+    message: string,
+    details: ErrorDetails & { siid: number; piid?: number; aiid?: number },
+  ) {
+    super(message, details);
+    this.siid = details.siid;
+    this.piid = details.piid;
+    this.aiid = details.aiid;
+  }
+}
+
+/**
+ * Represents error returned by emulated device method handler.
+ */
+export class EmulatorError extends MiioError {
+  constructor(message: string, code: number = ErrorCode.UNKNOWN) {
+    super(message, { code });
+  }
+}
+
+/**
+ * Represents request queue error (queue is full, wait timeout, queue is cleared).
+ */
+export class QueueError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.QUEUE, ...details });
+  }
+}
+
+/**
+ * Represents aborted operation (via `AbortSignal` or `Device.destroy`).
+ */
+export class AbortError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.ABORTED, ...details });
+  }
+}
+
+/**
+ * Represents invalid argument (value passed to a profiled device method, scan
+ * address, fixture version, device requested from a pool with another token).
+ */
+export class ValidationError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.VALIDATION, ...details });
+  }
+}
+
+/**
+ * Represents invalid device profile or missing profile of the device model.
+ */
+export class ProfileError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.PROFILE, ...details });
+  }
+}
+
+/**
+ * Represents failed Wi-Fi provisioning (e.g. device is already provisioned).
+ */
+export class ProvisionError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.PROVISION, ...details });
+  }
+}
+
+/**
+ * Represents failed firmware update (device rejected, failed or reported
+ * unexpected version).
+ */
+export class OtaError extends MiioError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(message, { code: ErrorCode.OTA, ...details });
   }
 }
@@ -1,7 +1,230 @@
 import Device from "./device";
-import { SocketError, DeviceError, ProtocolError } from "./errors";
+import Emulator from "./emulator";
+import DevicePool from "./pool";
+import Socket from "./socket";
+import RequestQueue from "./queue";
+import LoopbackTransport from "./loopback";
+import { RecordingTransport, ReplayTransport } from "./replay";
+import { MemorySessionStore, FileSessionStore } from "./session";
+import { instrument } from "./instrumentation";
+import {
+  configureLogging,
+  debugLogger,
+  jsonLogger,
+  pinoLogger,
+} from "./logger";
+import MetricsCollector from "./metrics";
+import { createTracingListener } from "./tracing";
+import { defineDevice, profileDevice } from "./profile";
+import { generateBindings, generateBindingsFromFile } from "./codegen";
+import FirmwareUpdater from "./ota";
+import { scan, scanIterator } from "./scan";
+import { readCapture, buildTranscript, decodeCapture } from "./pcap";
+import { isTransient, DEFAULT_RETRY_POLICY } from "./retry";
+import {
+  ErrorCode,
+  MiioError,
+  SocketError,
+  TimeoutError,
+  DeviceError,
+  ProtocolError,
+  ChecksumError,
+  TokenMismatchError,
+  MalformedResponseError,
+  HandshakeError,
+  MiotError,
+  EmulatorError,
+  QueueError,
+  AbortError,
+  ValidationError,
+  ProfileError,
+  ProvisionError,
+  OtaError,
+} from "./errors";
 
 const device = Device.discover;
+const provision = Device.provision;
 
-export { Device, device, SocketError, DeviceError, ProtocolError };
-export default { Device, device, SocketError, DeviceError, ProtocolError };
+export {
+  Device,
+  device,
+  provision,
+  FirmwareUpdater,
+  scan,
+  scanIterator,
+  readCapture,
+  buildTranscript,
+  decodeCapture,
+  isTransient,
+  DEFAULT_RETRY_POLICY,
+  DevicePool,
+  Emulator,
+  Socket,
+  RequestQueue,
+  LoopbackTransport,
+  RecordingTransport,
+  ReplayTransport,
+  MemorySessionStore,
+  FileSessionStore,
+  instrument,
+  MetricsCollector,
+  createTracingListener,
+  configureLogging,
+  debugLogger,
+  jsonLogger,
+  pinoLogger,
+  defineDevice,
+  profileDevice,
+  generateBindings,
+  generateBindingsFromFile,
+  ErrorCode,
+  MiioError,
+  SocketError,
+  TimeoutError,
+  DeviceError,
+  ProtocolError,
+  ChecksumError,
+  TokenMismatchError,
+  MalformedResponseError,
+  HandshakeError,
+  MiotError,
+  EmulatorError,
+  QueueError,
+  AbortError,
+  ValidationError,
+  ProfileError,
+  ProvisionError,
+  OtaError,
+};
+export default {
+  Device,
+  device,
+  provision,
+  FirmwareUpdater,
+  scan,
+  scanIterator,
+  readCapture,
+  buildTranscript,
+  decodeCapture,
+  isTransient,
+  DEFAULT_RETRY_POLICY,
+  DevicePool,
+  Emulator,
+  Socket,
+  RequestQueue,
+  LoopbackTransport,
+  RecordingTransport,
+  ReplayTransport,
+  MemorySessionStore,
+  FileSessionStore,
+  instrument,
+  MetricsCollector,
+  createTracingListener,
+  configureLogging,
+  debugLogger,
+  jsonLogger,
+  pinoLogger,
+  defineDevice,
+  profileDevice,
+  generateBindings,
+  generateBindingsFromFile,
+  ErrorCode,
+  MiioError,
+  SocketError,
+  TimeoutError,
+  DeviceError,
+  ProtocolError,
+  ChecksumError,
+  TokenMismatchError,
+  MalformedResponseError,
+  HandshakeError,
+  MiotError,
+  EmulatorError,
+  QueueError,
+  AbortError,
+  ValidationError,
+  ProfileError,
+  ProvisionError,
+  OtaError,
+};
+export type {
+  DeviceParams,
+  DiscoverParams,
+  CallOptions,
+  DeviceEvents,
+  DeviceMessage,
+  DeviceEvent,
+  GetPropsOptions,
+  ProvisionParams,
+  ProvisionResult,
+} from "./device";
+export type { BatchOptions, PropertyValues } from "./batch";
+export type { CacheOptions, SetterMapping } from "./cache";
+export type {
+  DeviceProfile,
+  PropertyProfile,
+  ActionProfile,
+  ValueSpec,
+  ValueType,
+  ValueOf,
+  ProfileValues,
+  ProfiledDevice,
+  DeviceDefinition,
+} from "./profile";
+export type {
+  MiotSpec,
+  MiotSpecService,
+  MiotSpecProperty,
+  MiotSpecAction,
+  MiotSpecValue,
+  CodegenOptions,
+} from "./codegen";
+export type { OtaOptions, OtaResult, FirmwareUpdaterEvents } from "./ota";
+export type { ScanOptions, ScanResult } from "./scan";
+export type {
+  CapturedDatagram,
+  DecodedPacket,
+  TranscriptEntry,
+  DecodeCaptureOptions,
+} from "./pcap";
+export type {
+  MiotProperty,
+  MiotPropertyValue,
+  MiotAction,
+  MiotPropertyResult,
+  MiotActionResult,
+} from "./miot";
+export type { EmulatorParams, EmulatorHandler } from "./emulator";
+export type {
+  Transport,
+  ParseFunc,
+  MatchFunc,
+  MessageListener,
+} from "./transport";
+export type { LoopbackHandler } from "./loopback";
+export type { Fixture, Exchange } from "./replay";
+export type { DevicePoolOptions } from "./pool";
+export type { DeviceSession, SessionStore } from "./session";
+export type { ConnectionState, RecoveryOptions } from "./connection";
+export type { Middleware, CallRequest, NextFunc } from "./middleware";
+export type {
+  InstrumentationEvent,
+  InstrumentationEventType,
+  InstrumentationError,
+  InstrumentationListener,
+} from "./instrumentation";
+export type { MetricsOptions } from "./metrics";
+export type { TracerLike, SpanLike } from "./tracing";
+export type {
+  Logger,
+  LogLevel,
+  LogFields,
+  LoggingOptions,
+  RedactionRules,
+  PinoLike,
+} from "./logger";
+export type { QueueOptions } from "./queue";
+export type { WatchOptions, PropertyChange } from "./poller";
+export type { ErrorDetails } from "./errors";
+export type { RetryPolicy, ShouldRetryFunc } from "./retry";
+export type { AbortSignalLike } from "./abort";
@@ -0,0 +1,115 @@
+import logger from "./logger";
+import { MiioError } from "./errors";
+
+export type InstrumentationEventType =
+  | "handshake.start"
+  | "handshake.end"
+  | "call.start"
+  | "call.attempt"
+  | "call.retry"
+  | "call.timeout"
+  | "call.checksum"
+  | "call.response"
+  | "call.end";
+
+/**
+ * Error summary attached to events of failed operations.
+ */
+export type InstrumentationError = {
+  name: string;
+  code?: number;
+  message: string;
+};
+
+/**
+ * Structured event of handshake or call.
+ *
+ * @remarks
+ * Events never contain tokens, packets or call parameters.
+ */
+export type InstrumentationEvent = {
+  type: InstrumentationEventType;
+
+  /**
+   * Identifier of the operation (the same for all events of a call or handshake).
+   */
+  id: string;
+
+  /**
+   * Time of the event in milliseconds.
+   */
+  time: number;
+
+  address: string;
+  deviceId?: number;
+  method?: string;
+  attempt?: number;
+
+  /**
+   * Duration in milliseconds (since the start of the operation for `*.end`
+   * events and since the start of the attempt otherwise).
+   */
+  duration?: number;
+
+  error?: InstrumentationError;
+};
+
+export type InstrumentationListener = (event: InstrumentationEvent) => void;
+
+const listeners = new Set<InstrumentationListener>();
+
+const log = logger.child({ module: "instrumentation" });
+
+/**
+ * Adds listener of instrumentation events of all devices.
+ *
+ * @param listener - event listener
+ * @returns function which removes listener
+ */
+export function instrument(listener: InstrumentationListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Passes event to all listeners.
+ *
+ * @param event - event without time
+ *
+ * @remarks
+ * Listener errors are only logged, so they never break calls.
+ */
+export function emitEvent(event: Omit<InstrumentationEvent, "time">): void {
+  if (listeners.size === 0) {
+    return;
+  }
+
+  const timed = { ...event, time: Date.now() };
+
+  for (const listener of listeners) {
+    try {
+      listener(timed);
+    } catch (err) {
+      log.error("listener failed", { error: String(err) });
+    }
+  }
+}
+
+/**
+ * Returns error summary safe to emit.
+ *
+ * @param err - error
+ * @returns error name, code and message
+ */
+export function describeError(err: unknown): InstrumentationError {
+  if (err instanceof Error) {
+    return {
+      name: err.name,
+      code: err instanceof MiioError ? err.code : undefined,
+      message: err.message,
+    };
+  }
+  return { name: "Error", message: String(err) };
+}
@@ -1,6 +1,65 @@
 import debug from "debug";
 
-const logger = debug("miio-api");
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Log sink. Adapters for `debug` (default), JSON lines and pino-like
+ * loggers are provided: `debugLogger`, `jsonLogger`, `pinoLogger`.
+ */
+export interface Logger {
+  trace(message: string, fields?: LogFields): void;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+
+  /**
+   * Returns logger which adds `bindings` to every record.
+   */
+  child?(bindings: LogFields): Logger;
+}
+
+/**
+ * Which data is replaced with `"[REDACTED]"` before logging:
+ * - `params` - params of all methods (`true`) or of the listed methods;
+ * - `results` - results of all methods (`true`) or of the listed methods;
+ * - `keys` - values of fields with these names at any depth.
+ */
+export type RedactionRules = {
+  params?: boolean | string[];
+  results?: boolean | string[];
+  keys?: string[];
+};
+
+export type LoggingOptions = {
+  logger?: Logger;
+  level?: LogLevel;
+  redact?: RedactionRules;
+};
+
+/**
+ * Subset of pino logger interface.
+ */
+export interface PinoLike {
+  trace(obj: LogFields, message: string): void;
+  debug(obj: LogFields, message: string): void;
+  info(obj: LogFields, message: string): void;
+  warn(obj: LogFields, message: string): void;
+  error(obj: LogFields, message: string): void;
+  child(bindings: LogFields): PinoLike;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+};
+
+const REDACTED = "[REDACTED]";
 
 /**
  * Returns hex dump of provided binary data.
@@ -26,10 +85,312 @@ export function hexdump(buffer: Buffer, blockSize = 16): string {
 }
 
 /**
- * Debug formatter for binary data.
+ * Returns logger which writes records using `debug` package.
+ *
+ * @param namespace - `debug` namespace
+ * @returns logger
+ *
+ * @remarks
+ * Values of child logger bindings are appended to the namespace
+ * (e.g. `miio-api:192.168.1.31`), so records can be filtered with `DEBUG`.
+ */
+export function debugLogger(namespace = "miio-api"): Logger {
+  const log = debug(namespace);
+
+  const write =
+    (level: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (!log.enabled) {
+        return;
+      }
+
+      const parts = [level === "debug" ? message : `${level}: ${message}`];
+      Object.entries(fields || {}).forEach(([key, value]) => {
+        if (value === undefined) {
+          return;
+        }
+        // Multiline strings (e.g. hex dumps) are printed as is.
+        if (typeof value === "string" && value.includes("\n")) {
+          parts.push(`\n${value}`);
+        } else {
+          parts.push(`${key}=${JSON.stringify(value)}`);
+        }
+      });
+
+      log("%s", parts.join(" "));
+    };
+
+  return {
+    trace: write("trace"),
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    child: (bindings) =>
+      debugLogger([namespace, ...Object.values(bindings)].join(":")),
+  };
+}
+
+/**
+ * Returns logger which writes records as JSON lines.
+ *
+ * @param write - function which writes a line (stderr by default)
+ * @param bindings - fields added to every record
+ * @returns logger
  */
-debug.formatters.H = (buffer: Buffer): string => {
-  return hexdump(buffer);
+export function jsonLogger(
+  write: (line: string) => void = (line) => process.stderr.write(line + "\n"),
+  bindings: LogFields = {},
+): Logger {
+  const record =
+    (level: LogLevel) =>
+    (message: string, fields?: LogFields): void =>
+      write(
+        JSON.stringify({
+          time: new Date().toISOString(),
+          level,
+          msg: message,
+          ...bindings,
+          ...fields,
+        }),
+      );
+
+  return {
+    trace: record("trace"),
+    debug: record("debug"),
+    info: record("info"),
+    warn: record("warn"),
+    error: record("error"),
+    child: (childBindings) =>
+      jsonLogger(write, { ...bindings, ...childBindings }),
+  };
+}
+
+/**
+ * Returns logger which writes records to pino-like logger.
+ *
+ * @param pino - pino (or compatible) logger instance
+ * @returns logger
+ */
+export function pinoLogger(pino: PinoLike): Logger {
+  return {
+    trace: (message, fields) => pino.trace(fields || {}, message),
+    debug: (message, fields) => pino.debug(fields || {}, message),
+    info: (message, fields) => pino.info(fields || {}, message),
+    warn: (message, fields) => pino.warn(fields || {}, message),
+    error: (message, fields) => pino.error(fields || {}, message),
+    child: (bindings) => pinoLogger(pino.child(bindings)),
+  };
+}
+
+const DEFAULT_LOGGING_OPTIONS: Required<LoggingOptions> = {
+  logger: debugLogger(),
+  level: "debug",
+  redact: {
+    // Wi-Fi credentials.
+    params: ["miIO.config_router"],
+    results: false,
+    keys: ["token", "passwd", "password"],
+  },
 };
 
+let globalOptions: Required<LoggingOptions> = { ...DEFAULT_LOGGING_OPTIONS };
+
+/**
+ * Changes global logging options (used by devices without own options).
+ *
+ * @param options - logging options
+ * @param options.logger - log sink (`debug` by default)
+ * @param options.level - minimal level (`debug` by default, packet hex dumps are logged at `trace`)
+ * @param options.redact - redaction rules (merged with the default ones)
+ */
+export function configureLogging(options: LoggingOptions): void {
+  globalOptions = {
+    ...globalOptions,
+    ...options,
+    redact: { ...globalOptions.redact, ...options.redact },
+  };
+}
+
+/**
+ * Checks if rule applies to the method.
+ *
+ * @param rule - redaction rule
+ * @param method - method name
+ * @returns `true` if data of the `method` must be redacted
+ */
+function matchesRule(
+  rule: boolean | string[] | undefined,
+  method: unknown,
+): boolean {
+  if (Array.isArray(rule)) {
+    return typeof method === "string" && rule.includes(method);
+  }
+  return rule === true;
+}
+
+/**
+ * Replaces values of the given keys at any depth.
+ *
+ * @param value - value to redact
+ * @param keys - keys to redact
+ * @returns redacted copy of `value`
+ */
+function redactKeys(value: unknown, keys: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactKeys(item, keys));
+  }
+
+  if (value && typeof value === "object" && !Buffer.isBuffer(value)) {
+    const result: LogFields = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = keys.includes(key) ? REDACTED : redactKeys(item, keys);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Applies redaction rules to the record fields.
+ *
+ * @param fields - record fields (`params` and `result` are redacted by `method`)
+ * @param rules - redaction rules
+ * @returns redacted fields
+ */
+function redact(fields: LogFields, rules: RedactionRules): LogFields {
+  const redacted = { ...fields };
+
+  if ("params" in redacted && matchesRule(rules.params, fields.method)) {
+    redacted.params = REDACTED;
+  }
+  if ("result" in redacted && matchesRule(rules.results, fields.method)) {
+    redacted.result = REDACTED;
+  }
+
+  return redactKeys(redacted, rules.keys || []) as LogFields;
+}
+
+export class Log {
+  private options?: LoggingOptions;
+  private bindings: LogFields;
+  private sink: Logger | null;
+  private sinkFor: Logger | null;
+
+  /**
+   * Represents logger used inside the library: filters records by level,
+   * applies redaction rules and passes records to the configured sink.
+   *
+   * @param options - logging options (global options are used for missing ones)
+   * @param bindings - fields added to every record
+   */
+  constructor(options?: LoggingOptions, bindings: LogFields = {}) {
+    this.options = options;
+    this.bindings = bindings;
+    this.sink = null;
+    this.sinkFor = null;
+  }
+
+  /**
+   * Returns logger which adds `bindings` to every record.
+   *
+   * @param bindings - fields added to every record
+   * @returns child logger
+   */
+  child(bindings: LogFields): Log {
+    return new Log(this.options, { ...this.bindings, ...bindings });
+  }
+
+  /**
+   * Checks if records of the level are logged.
+   *
+   * @param level - log level
+   * @returns `true` if level is enabled
+   */
+  enabled(level: LogLevel): boolean {
+    const minLevel = this.options?.level || globalOptions.level;
+    return LEVELS[level] >= LEVELS[minLevel];
+  }
+
+  trace(message: string, fields?: LogFields | (() => LogFields)): void {
+    this.write("trace", message, fields);
+  }
+
+  debug(message: string, fields?: LogFields | (() => LogFields)): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields | (() => LogFields)): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields | (() => LogFields)): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields | (() => LogFields)): void {
+    this.write("error", message, fields);
+  }
+
+  /**
+   * Writes record to the sink.
+   *
+   * @param level - log level
+   * @param message - message
+   * @param fields - record fields or function which returns them
+   *    (called only if level is enabled)
+   */
+  private write(
+    level: LogLevel,
+    message: string,
+    fields?: LogFields | (() => LogFields),
+  ): void {
+    if (!this.enabled(level)) {
+      return;
+    }
+
+    const rules = { ...globalOptions.redact, ...this.options?.redact };
+    const resolved = typeof fields === "function" ? fields() : fields;
+    const sink = this.getSink();
+
+    sink[level](
+      message,
+      resolved ? redact(this.withBindings(sink, resolved), rules) : undefined,
+    );
+  }
+
+  /**
+   * Returns sink with bindings (child sink is cached until sink is changed).
+   *
+   * @returns sink
+   */
+  private getSink(): Logger {
+    const logger = this.options?.logger || globalOptions.logger;
+
+    if (this.sinkFor !== logger || !this.sink) {
+      this.sinkFor = logger;
+      this.sink =
+        logger.child && Object.keys(this.bindings).length > 0
+          ? logger.child(this.bindings)
+          : logger;
+    }
+
+    return this.sink;
+  }
+
+  /**
+   * Adds bindings to the fields if sink doesn't support child loggers.
+   *
+   * @param sink - sink
+   * @param fields - record fields
+   * @returns fields
+   */
+  private withBindings(sink: Logger, fields: LogFields): LogFields {
+    return sink.child ? fields : { ...this.bindings, ...fields };
+  }
+}
+
+const logger = new Log();
+
 export default logger;
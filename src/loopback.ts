@@ -0,0 +1,111 @@
+import { SocketError, TimeoutError, ErrorCode } from "./errors";
+import { AbortSignalLike, abortable, throwIfAborted } from "./abort";
+import { sleep } from "./utils";
+import { Transport, ParseFunc, MatchFunc, MessageListener } from "./transport";
+
+/**
+ * Handles binary request and returns binary response
+ * (`null` if request must be left without response).
+ */
+export type LoopbackHandler = (
+  msg: Buffer,
+) => Buffer | Buffer[] | null | Promise<Buffer | Buffer[] | null>;
+
+class LoopbackTransport implements Transport {
+  private handler: LoopbackHandler;
+  private closed: boolean;
+  private listener: MessageListener | null;
+
+  /**
+   * Represents an in-memory `Transport` which passes requests
+   * directly to the handler (e.g. `Emulator.handle`).
+   *
+   * @param handler - request handler
+   */
+  constructor(handler: LoopbackHandler) {
+    this.handler = handler;
+    this.closed = false;
+    this.listener = null;
+  }
+
+  /**
+   * Passes data to the handler and returns matched response wrapped in `Promise`.
+   *
+   * @param data - data to send
+   * @param parse - parse function
+   * @param match - match function (checks if response matches the request)
+   * @param timeout - response timeout
+   * @param signal - abort signal
+   * @returns `Promise` which will be resolved when matched response come or
+   *    rejected in case of error, timeout or abort
+   */
+  async send<ResponseType>(
+    data: Buffer,
+    parse: ParseFunc<ResponseType>,
+    match: MatchFunc<ResponseType>,
+    timeout = 5000,
+    signal?: AbortSignalLike,
+  ): Promise<ResponseType> {
+    throwIfAborted(signal);
+
+    if (this.closed) {
+      throw new SocketError("Transport is closed", {
+        code: ErrorCode.CLOSED,
+      });
+    }
+
+    const handled = await abortable(
+      Promise.resolve(this.handler(data)),
+      signal,
+    );
+    const responses = handled ? ([] as Buffer[]).concat(handled) : [];
+
+    let matched: { parsed: ResponseType } | null = null;
+
+    for (const msg of responses) {
+      const parsed = parse(msg);
+      if (!matched && match(parsed)) {
+        matched = { parsed };
+      } else if (this.listener) {
+        this.listener(msg);
+      }
+    }
+
+    if (matched) {
+      return matched.parsed;
+    }
+
+    // Nothing matched: behave as a device which did not respond.
+    await sleep(timeout, signal);
+    throw new TimeoutError("Timeout");
+  }
+
+  /**
+   * Sets listener for responses which did not match the request.
+   *
+   * @param listener - message listener
+   */
+  listen(listener: MessageListener): void {
+    this.listener = listener;
+  }
+
+  /**
+   * Delivers message to the listener as if the device pushed it.
+   *
+   * @param msg - binary message
+   */
+  push(msg: Buffer): void {
+    if (this.listener) {
+      this.listener(msg);
+    }
+  }
+
+  /**
+   * Closes transport.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+export default LoopbackTransport;
@@ -0,0 +1,313 @@
+import {
+  instrument,
+  InstrumentationEvent,
+  InstrumentationListener,
+} from "./instrumentation";
+
+export type MetricsOptions = {
+  prefix?: string;
+  buckets?: number[];
+};
+
+type Labels = Record<string, string>;
+
+/**
+ * Escapes label value according to Prometheus text format.
+ *
+ * @param value - label value
+ * @returns escaped value
+ */
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+/**
+ * Formats labels according to Prometheus text format.
+ *
+ * @param labels - labels
+ * @returns labels in curly braces (empty string if there are no labels)
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+class Counter {
+  private name: string;
+  private help: string;
+  private values: Map<string, { labels: Labels; value: number }>;
+
+  /**
+   * Represents counter metric with labels.
+   *
+   * @param name - metric name
+   * @param help - metric description
+   */
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+    this.values = new Map();
+  }
+
+  /**
+   * Increments counter.
+   *
+   * @param labels - labels
+   * @param value - increment
+   */
+  inc(labels: Labels, value = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Returns metric in Prometheus text format.
+   *
+   * @returns lines of metric
+   */
+  format(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+    ];
+    this.values.forEach(({ labels, value }) =>
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`),
+    );
+    return lines;
+  }
+
+  /**
+   * Resets all values.
+   */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+class Histogram {
+  private name: string;
+  private help: string;
+  private buckets: number[];
+  private values: Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >;
+
+  /**
+   * Represents histogram metric with labels.
+   *
+   * @param name - metric name
+   * @param help - metric description
+   * @param buckets - upper bounds of buckets
+   */
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+    this.values = new Map();
+  }
+
+  /**
+   * Adds observation.
+   *
+   * @param labels - labels
+   * @param value - observed value
+   */
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.buckets.forEach((bucket, i) => {
+      if (value <= bucket) {
+        entry.counts[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Returns metric in Prometheus text format.
+   *
+   * @returns lines of metric
+   */
+  format(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+
+    this.values.forEach(({ labels, counts, sum, count }) => {
+      this.buckets.forEach((bucket, i) => {
+        const le = formatLabels({ ...labels, le: String(bucket) });
+        lines.push(`${this.name}_bucket${le} ${counts[i]}`);
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({
+          ...labels,
+          le: "+Inf",
+        })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      );
+    });
+
+    return lines;
+  }
+
+  /**
+   * Resets all values.
+   */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+class MetricsCollector {
+  static DEFAULT_BUCKETS = [
+    0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+  ];
+
+  private latency: Histogram;
+  private handshakes: Histogram;
+  private calls: Counter;
+  private errors: Counter;
+  private retries: Counter;
+  private failedAttempts: Counter;
+  private metrics: (Counter | Histogram)[];
+
+  /**
+   * Represents collector of instrumentation events which exposes metrics
+   * in Prometheus text format.
+   *
+   * @param options - metrics options
+   * @param options.prefix - metric name prefix (`miio_` by default)
+   * @param options.buckets - latency histogram buckets in seconds
+   *
+   * @remarks
+   * Collector receives events only after `attach`.
+   */
+  constructor(options?: MetricsOptions) {
+    const prefix = options?.prefix ?? "miio_";
+    const buckets = options?.buckets || MetricsCollector.DEFAULT_BUCKETS;
+
+    this.latency = new Histogram(
+      `${prefix}response_latency_seconds`,
+      "Time between request and response of a single attempt.",
+      buckets,
+    );
+    this.handshakes = new Histogram(
+      `${prefix}handshake_duration_seconds`,
+      "Duration of handshakes (including retries).",
+      buckets,
+    );
+    this.calls = new Counter(
+      `${prefix}calls_total`,
+      "Number of finished calls.",
+    );
+    this.errors = new Counter(
+      `${prefix}errors_total`,
+      "Number of failed calls and handshakes by error class.",
+    );
+    this.retries = new Counter(
+      `${prefix}retries_total`,
+      "Number of call retries.",
+    );
+    this.failedAttempts = new Counter(
+      `${prefix}failed_attempts_total`,
+      "Number of call attempts failed with timeout or invalid checksum.",
+    );
+    this.metrics = [
+      this.latency,
+      this.handshakes,
+      this.calls,
+      this.errors,
+      this.retries,
+      this.failedAttempts,
+    ];
+  }
+
+  /**
+   * Starts collecting instrumentation events of all devices.
+   *
+   * @returns function which stops collecting
+   */
+  attach(): () => void {
+    return instrument(this.handle);
+  }
+
+  /**
+   * Updates metrics with instrumentation event.
+   *
+   * @param event - instrumentation event
+   */
+  handle: InstrumentationListener = (event: InstrumentationEvent): void => {
+    const labels = {
+      address: event.address,
+      device_id: event.deviceId !== undefined ? String(event.deviceId) : "",
+    };
+
+    switch (event.type) {
+      case "call.response":
+        this.latency.observe(labels, (event.duration || 0) / 1000);
+        break;
+      case "call.retry":
+        this.retries.inc(labels);
+        break;
+      case "call.timeout":
+        this.failedAttempts.inc({ ...labels, reason: "timeout" });
+        break;
+      case "call.checksum":
+        this.failedAttempts.inc({ ...labels, reason: "checksum" });
+        break;
+      case "call.end":
+        this.calls.inc({ ...labels, result: event.error ? "error" : "ok" });
+        if (event.error) {
+          this.errors.inc({ ...labels, error: event.error.name });
+        }
+        break;
+      case "handshake.end":
+        this.handshakes.observe(
+          { address: event.address },
+          (event.duration || 0) / 1000,
+        );
+        if (event.error) {
+          this.errors.inc({ ...labels, error: event.error.name });
+        }
+        break;
+    }
+  };
+
+  /**
+   * Returns metrics in Prometheus text format.
+   *
+   * @returns metrics
+   */
+  collect(): string {
+    const lines: string[] = [];
+    this.metrics.forEach((metric) => lines.push(...metric.format()));
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Resets all metrics.
+   */
+  reset(): void {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+}
+
+export default MetricsCollector;
@@ -0,0 +1,56 @@
+import type Device from "./device";
+import type { CallOptions } from "./device";
+import type { Params } from "./protocol";
+
+/**
+ * Device method call passed through the middleware pipeline.
+ */
+export type CallRequest = {
+  device: Device;
+  method: string;
+  params?: Params;
+  options: CallOptions;
+};
+
+/**
+ * Calls the next middleware (or sends request to the device).
+ */
+export type NextFunc = (request?: CallRequest) => Promise<unknown>;
+
+/**
+ * Wraps device method call: may modify request, short-circuit with a result
+ * (not calling `next`) or transform result and errors of `next`.
+ */
+export type Middleware = (
+  request: CallRequest,
+  next: NextFunc,
+) => Promise<unknown>;
+
+/**
+ * Passes request through the middlewares.
+ *
+ * @param middlewares - middlewares in order of execution
+ * @param request - call request
+ * @param final - function which actually makes the call
+ * @returns result of the first middleware (or `final` if there are no middlewares)
+ */
+export function runMiddlewares(
+  middlewares: Middleware[],
+  request: CallRequest,
+  final: (request: CallRequest) => Promise<unknown>,
+): Promise<unknown> {
+  const dispatch = async (
+    index: number,
+    request: CallRequest,
+  ): Promise<unknown> => {
+    const middleware = middlewares[index];
+
+    if (!middleware) {
+      return final(request);
+    }
+
+    return middleware(request, (next = request) => dispatch(index + 1, next));
+  };
+
+  return dispatch(0, request);
+}
@@ -0,0 +1,136 @@
+import { MalformedResponseError, MiotError } from "./errors";
+
+export type MiotProperty = {
+  did?: string;
+  siid: number;
+  piid: number;
+};
+
+export type MiotPropertyValue<ValueType = unknown> = MiotProperty & {
+  value: ValueType;
+};
+
+export type MiotAction = {
+  did?: string;
+  siid: number;
+  aiid: number;
+  in?: unknown[];
+};
+
+export type MiotPropertyResult<ValueType = unknown> = {
+  did: string;
+  siid: number;
+  piid: number;
+  code: number;
+  value?: ValueType;
+};
+
+export type MiotActionResult<OutType extends Array<unknown> = unknown[]> = {
+  did?: string;
+  siid?: number;
+  aiid?: number;
+  code: number;
+  out?: OutType;
+};
+
+/**
+ * Well known MIoT error codes.
+ */
+export const MIOT_ERRORS: Record<number, string> = {
+  [-4001]: "Property is not readable",
+  [-4002]: "Property is not writable",
+  [-4003]: "Property, action or service does not exist",
+  [-4004]: "Internal device error",
+  [-4005]: "Invalid action input",
+  [-4006]: "Invalid action output",
+  [-4007]: "Invalid property value",
+  [-4008]: "Invalid action",
+};
+
+/**
+ * Fills `did` of each property in case it is not set.
+ *
+ * @param props - list of properties
+ * @param did - default `did`
+ * @returns list of properties with `did` set
+ */
+export function withDid<T extends { did?: string }>(
+  props: T[],
+  did: string,
+): (T & { did: string })[] {
+  return props.map((prop) => ({ ...prop, did: prop.did ?? did }));
+}
+
+/**
+ * Throws `MiotError` if result has non-zero `code`.
+ *
+ * @param result - result of MIoT property or action
+ * @param siid - service identifier of the property or action
+ */
+export function checkMiotResult(
+  result: { code: number; siid?: number; piid?: number; aiid?: number },
+  siid: number,
+): void {
+  if (result.code === 0) {
+    return;
+  }
+
+  const target =
+    result.aiid !== undefined
+      ? `siid=${siid} aiid=${result.aiid}`
+      : `siid=${siid} piid=${result.piid}`;
+  const reason = MIOT_ERRORS[result.code] || "Unknown error";
+
+  throw new MiotError(
+    `MIoT ${target} failed: "${reason}". Code: ${result.code}`,
+    {
+      code: result.code,
+      siid,
+      piid: result.piid,
+      aiid: result.aiid,
+    },
+  );
+}
+
+/**
+ * Matches device results with the requested properties.
+ *
+ * @param props - requested properties
+ * @param results - device results
+ * @returns results in order of `props`
+ *
+ * @remarks
+ * Devices may return results in arbitrary order, so each result is looked up
+ * by its `did`, `siid` and `piid`.
+ * Throws `MiotError` for the first property with non-zero `code`.
+ */
+export function matchMiotResults<ValueType>(
+  props: (MiotProperty & { did: string })[],
+  results: MiotPropertyResult<ValueType>[],
+): MiotPropertyResult<ValueType>[] {
+  if (!Array.isArray(results)) {
+    throw new MalformedResponseError("Invalid MIoT response: array expected");
+  }
+
+  const remaining = [...results];
+
+  return props.map((prop) => {
+    const index = remaining.findIndex(
+      (result) =>
+        result.did === prop.did &&
+        result.siid === prop.siid &&
+        result.piid === prop.piid,
+    );
+
+    if (index === -1) {
+      throw new MalformedResponseError(
+        `No result for MIoT property siid=${prop.siid} piid=${prop.piid}`,
+      );
+    }
+
+    const [result] = remaining.splice(index, 1);
+    checkMiotResult(result, prop.siid);
+
+    return result;
+  });
+}
@@ -0,0 +1,449 @@
+import { EventEmitter } from "events";
+import dgram from "dgram";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import type Device from "./device";
+import { hash } from "./crypto";
+import { OtaError, TimeoutError } from "./errors";
+import { isUnreachable } from "./retry";
+import { AbortSignalLike, throwIfAborted } from "./abort";
+import { sleep, monotonicNow, randomString } from "./utils";
+
+export type OtaOptions = {
+  /**
+   * Path to firmware file.
+   */
+  file: string;
+
+  /**
+   * Expected `fw_ver` after the update.
+   */
+  version?: string;
+
+  /**
+   * Address HTTP server is bound to (address of the interface which routes
+   * to the device by default).
+   */
+  host?: string;
+
+  /**
+   * HTTP server port (random by default).
+   */
+  port?: number;
+
+  /**
+   * Interval between state polls in milliseconds.
+   */
+  pollInterval?: number;
+
+  /**
+   * Time in milliseconds for download and installation.
+   */
+  timeout?: number;
+
+  /**
+   * Time in milliseconds to wait for the device after installation.
+   */
+  rebootTimeout?: number;
+
+  /**
+   * Only check firmware file and device, don't send `miIO.ota`.
+   */
+  dryRun?: boolean;
+
+  signal?: AbortSignalLike;
+};
+
+export type OtaResult = {
+  /**
+   * Firmware URL sent to the device. In dry-run mode the server is not
+   * started, so the URL has no port unless `port` option is set.
+   */
+  url: string;
+  md5: string;
+  size: number;
+  previousVersion: string | null;
+
+  /**
+   * Firmware version after the update (current version in dry-run mode).
+   */
+  version: string | null;
+  dryRun: boolean;
+};
+
+export interface FirmwareUpdaterEvents {
+  /**
+   * OTA state reported by the device (`downloading`, `installing`, ...)
+   * or `rebooting` while device doesn't respond after installation.
+   */
+  state: (state: string) => void;
+
+  /**
+   * Download/installation progress in percents.
+   */
+  progress: (progress: number) => void;
+
+  /**
+   * Device requested firmware file.
+   */
+  request: (address: string) => void;
+}
+
+declare interface FirmwareUpdater {
+  on<E extends keyof FirmwareUpdaterEvents>(
+    event: E,
+    listener: FirmwareUpdaterEvents[E],
+  ): this;
+  once<E extends keyof FirmwareUpdaterEvents>(
+    event: E,
+    listener: FirmwareUpdaterEvents[E],
+  ): this;
+  off<E extends keyof FirmwareUpdaterEvents>(
+    event: E,
+    listener: FirmwareUpdaterEvents[E],
+  ): this;
+  emit<E extends keyof FirmwareUpdaterEvents>(
+    event: E,
+    ...args: Parameters<FirmwareUpdaterEvents[E]>
+  ): boolean;
+}
+
+/**
+ * Returns address of the local interface which routes to the address.
+ *
+ * @param address - remote address
+ * @param port - remote port
+ * @returns local address
+ */
+function localAddressFor(address: string, port: number): Promise<string> {
+  const socket = dgram.createSocket("udp4");
+
+  return new Promise<string>((resolve, reject) => {
+    socket.once("error", reject);
+    // Connecting UDP socket sends nothing, it only selects the route.
+    socket.connect(port, address, () => resolve(socket.address().address));
+  }).finally(() => socket.close());
+}
+
+/**
+ * Returns the first element of array result.
+ *
+ * @param result - method result
+ * @returns the first element or the result itself
+ */
+function first(result: unknown): unknown {
+  return Array.isArray(result) ? result[0] : result;
+}
+
+class FirmwareUpdater extends EventEmitter {
+  static DEFAULT_OPTIONS = {
+    port: 0,
+    pollInterval: 2000,
+    timeout: 10 * 60 * 1000,
+    rebootTimeout: 3 * 60 * 1000,
+    dryRun: false,
+  };
+
+  static FAILED_STATES = ["failed"];
+  static DONE_STATES = ["installed", "idle"];
+
+  private device: Device;
+  private options: OtaOptions & typeof FirmwareUpdater.DEFAULT_OPTIONS;
+  private state: string | null;
+  private progress: number | null;
+
+  /**
+   * Represents local firmware update of the device via `miIO.ota`.
+   *
+   * @param device - device to update
+   * @param options - update options
+   * @param options.file - path to firmware file
+   * @param options.version - expected `fw_ver` after the update
+   * @param options.host - address HTTP server is bound to
+   * @param options.port - HTTP server port
+   * @param options.pollInterval - interval between state polls in milliseconds
+   * @param options.timeout - time in milliseconds for download and installation
+   * @param options.rebootTimeout - time in milliseconds to wait for the device
+   *    after installation
+   * @param options.dryRun - only check firmware file and device
+   * @param options.signal - abort signal
+   *
+   * @remarks
+   * Call `run` to start the update.
+   */
+  constructor(device: Device, options: OtaOptions) {
+    super();
+    this.device = device;
+    this.options = { ...FirmwareUpdater.DEFAULT_OPTIONS, ...options };
+    this.state = null;
+    this.progress = null;
+  }
+
+  /**
+   * Updates device firmware.
+   *
+   * @returns update result
+   *
+   * @remarks
+   * Firmware file is served by built-in HTTP server until device finishes
+   * installation. After installation device is handshaked again and its
+   * version is checked with `miIO.info`. Throws `OtaError` if device rejects
+   * or fails the update or reports unexpected version and `TimeoutError`
+   * if update or reboot takes too long.
+   */
+  async run(): Promise<OtaResult> {
+    const { signal } = this.options;
+    const firmware = await fs.promises.readFile(this.options.file);
+    const md5 = hash(firmware).toString("hex");
+    const host =
+      this.options.host || (await localAddressFor(this.device.address, 54321));
+    const previousVersion = await this.firmwareVersion();
+    const path = `/${randomString()}.bin`;
+
+    throwIfAborted(signal);
+
+    if (this.options.dryRun) {
+      return {
+        url: this.options.port
+          ? `http://${host}:${this.options.port}${path}`
+          : `http://${host}${path}`,
+        md5,
+        size: firmware.length,
+        previousVersion,
+        version: previousVersion,
+        dryRun: true,
+      };
+    }
+
+    const server = await this.serve(firmware, host, path);
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const url = `http://${host}:${port}${path}`;
+
+      let result;
+
+      try {
+        // Retried request would restart the download.
+        result = await this.device.call(
+          "miIO.ota",
+          {
+            mode: "normal",
+            install: "1",
+            app_url: url,
+            file_md5: md5,
+            proc: "dnld install",
+          },
+          { signal, attempts: 1 },
+        );
+      } catch (err) {
+        // Request may have reached the device with the response lost,
+        // polling shows whether the update started.
+        if (!isUnreachable(err)) {
+          throw err;
+        }
+        result = "ok";
+      }
+
+      if (first(result) !== "ok") {
+        throw new OtaError(
+          `Device rejected update: ${JSON.stringify(result)}`,
+          this.details(),
+        );
+      }
+
+      await this.waitForInstall();
+      const version = await this.waitForReboot();
+
+      if (this.options.version && version !== this.options.version) {
+        throw new OtaError(
+          `Device reports firmware ${version} instead of ${this.options.version}`,
+          this.details(),
+        );
+      }
+
+      return {
+        url,
+        md5,
+        size: firmware.length,
+        previousVersion,
+        version,
+        dryRun: false,
+      };
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  /**
+   * Starts HTTP server which serves firmware file.
+   *
+   * @param firmware - firmware file contents
+   * @param host - address to bind to
+   * @param path - URL path of the file
+   * @returns started server
+   */
+  private serve(
+    firmware: Buffer,
+    host: string,
+    path: string,
+  ): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+      if (req.method !== "GET" || req.url !== path) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      this.emit("request", req.socket.remoteAddress || "");
+      res.writeHead(200, {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": firmware.length,
+      });
+      res.end(firmware);
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, host, () => {
+        server.removeListener("error", reject);
+        resolve(server);
+      });
+    });
+  }
+
+  /**
+   * Polls OTA state and progress until installation is finished.
+   *
+   * @remarks
+   * Device which stops responding while installing is considered rebooting,
+   * in other states polling continues until `timeout`.
+   */
+  private async waitForInstall(): Promise<void> {
+    const deadline = monotonicNow() + this.options.timeout;
+    let started = false;
+
+    while (monotonicNow() < deadline) {
+      await sleep(this.options.pollInterval, this.options.signal);
+
+      let state, progress;
+
+      try {
+        state = String(first(await this.poll("miIO.get_ota_state")));
+        progress = Number(first(await this.poll("miIO.get_ota_progress")));
+      } catch (err) {
+        if (!isUnreachable(err)) {
+          throw err;
+        }
+        if (this.state === "installing") {
+          return;
+        }
+        continue;
+      }
+
+      this.update(state, progress);
+
+      if (FirmwareUpdater.FAILED_STATES.includes(state)) {
+        throw new OtaError("Device failed to update firmware", this.details());
+      }
+      if (state !== "idle") {
+        started = true;
+      }
+      if (started && FirmwareUpdater.DONE_STATES.includes(state)) {
+        return;
+      }
+    }
+
+    throw new TimeoutError("Firmware update timed out", this.details());
+  }
+
+  /**
+   * Waits for the device after installation.
+   *
+   * @returns firmware version reported by the device
+   */
+  private async waitForReboot(): Promise<string | null> {
+    const deadline = monotonicNow() + this.options.rebootTimeout;
+
+    this.update("rebooting", this.progress);
+
+    while (monotonicNow() < deadline) {
+      // Rebooted device has a new clock and may have a new session.
+      this.device.resetSession();
+
+      try {
+        // Handshake retries must not outlive the reboot timeout.
+        return await this.firmwareVersion(
+          Date.now() + deadline - monotonicNow(),
+        );
+      } catch (err) {
+        if (!isUnreachable(err)) {
+          throw err;
+        }
+      }
+
+      await sleep(this.options.pollInterval, this.options.signal);
+    }
+
+    throw new TimeoutError("Device did not come back after update", {
+      ...this.details(),
+      method: "miIO.info",
+    });
+  }
+
+  /**
+   * Calls polling method with a single attempt.
+   *
+   * @param method - method name
+   * @returns method result
+   */
+  private poll(method: string): Promise<unknown> {
+    return this.device.call(method, [], {
+      attempts: 1,
+      signal: this.options.signal,
+    });
+  }
+
+  /**
+   * Returns firmware version reported by `miIO.info`.
+   *
+   * @param deadline - absolute deadline of the call (time in milliseconds)
+   * @returns firmware version or `null` if device doesn't report it
+   */
+  private async firmwareVersion(deadline?: number): Promise<string | null> {
+    const info = await this.device.call<[], { fw_ver?: string }>(
+      "miIO.info",
+      [],
+      { signal: this.options.signal, deadline },
+    );
+    return info?.fw_ver ?? null;
+  }
+
+  /**
+   * Emits `state` and `progress` events on change.
+   *
+   * @param state - OTA state
+   * @param progress - progress in percents
+   */
+  private update(state: string, progress: number | null): void {
+    if (state !== this.state) {
+      this.state = state;
+      this.emit("state", state);
+    }
+    if (progress !== null && !isNaN(progress) && progress !== this.progress) {
+      this.progress = progress;
+      this.emit("progress", progress);
+    }
+  }
+
+  /**
+   * Returns details attached to errors.
+   *
+   * @returns error details
+   */
+  private details(): { address: string; deviceId: number } {
+    return { address: this.device.address, deviceId: this.device.id };
+  }
+}
+
+export default FirmwareUpdater;
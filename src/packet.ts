@@ -82,6 +82,19 @@ class Packet {
     return new Packet({ deviceId, timestamp, checksum, data });
   }
 
+  /**
+   * Returns device id from packet header without parsing whole packet.
+   *
+   * @param buf - binary packet
+   * @returns device id or `null` if `buf` is too short
+   */
+  static peekDeviceId(buf: Buffer): number | null {
+    if (buf.byteLength < Packet.HEADER_SIZE) {
+      return null;
+    }
+    return buf.readUInt32BE(Packet.OFFSETS.DEVICE_ID);
+  }
+
   /**
    * Returns `Packet` length.
    *
@@ -0,0 +1,498 @@
+import { promises as fs } from "fs";
+import Device from "./device";
+import Packet from "./packet";
+import Protocol from "./protocol";
+import { ChecksumError } from "./errors";
+
+/**
+ * UDP datagram extracted from the capture.
+ */
+export type CapturedDatagram = {
+  time: number;
+  srcAddress: string;
+  srcPort: number;
+  dstAddress: string;
+  dstPort: number;
+  data: Buffer;
+};
+
+/**
+ * Decoded miIO packet.
+ */
+export type DecodedPacket = {
+  time: number;
+  from: string;
+  to: string;
+  deviceId: number;
+  timestamp: number;
+  handshake: boolean;
+  checksumValid: boolean | null;
+  payload?: unknown;
+  data?: string;
+  error?: string;
+};
+
+/**
+ * Request and its response (either may be missing).
+ */
+export type TranscriptEntry = {
+  handshake: boolean;
+  device: string;
+  deviceId: number;
+  request: DecodedPacket | null;
+  response: DecodedPacket | null;
+  latency: number | null;
+};
+
+export type DecodeCaptureOptions = {
+  tokens?: Record<number, string>;
+  port?: number;
+};
+
+const PCAP_MAGIC_US = 0xa1b2c3d4;
+const PCAP_MAGIC_NS = 0xa1b23c4d;
+const PCAPNG_SHB = 0x0a0d0d0a;
+const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+
+const PCAPNG_IDB = 1;
+const PCAPNG_SPB = 3;
+const PCAPNG_EPB = 6;
+
+// Block header, fixed fields of EPB and trailing block length.
+const PCAPNG_EPB_MIN_LENGTH = 32;
+
+const LINKTYPE_NULL = 0;
+const LINKTYPE_ETHERNET = 1;
+const LINKTYPE_RAW = 101;
+const LINKTYPE_LOOP = 108;
+const LINKTYPE_LINUX_SLL = 113;
+const LINKTYPE_IPV4 = 228;
+const LINKTYPE_LINUX_SLL2 = 276;
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_VLAN = 0x8100;
+
+const AF_INET = 2;
+const IPPROTO_UDP = 17;
+
+/**
+ * Returns offset of IPv4 header in the link layer frame.
+ *
+ * @param linkType - link layer type
+ * @param frame - link layer frame
+ * @returns offset of IPv4 header or `null` if frame doesn't contain IPv4 packet
+ */
+function ipOffset(linkType: number, frame: Buffer): number | null {
+  switch (linkType) {
+    case LINKTYPE_ETHERNET: {
+      let offset = 12;
+      while (
+        frame.byteLength >= offset + 2 &&
+        frame.readUInt16BE(offset) === ETHERTYPE_VLAN
+      ) {
+        offset += 4;
+      }
+      if (
+        frame.byteLength < offset + 2 ||
+        frame.readUInt16BE(offset) !== ETHERTYPE_IPV4
+      ) {
+        return null;
+      }
+      return offset + 2;
+    }
+    case LINKTYPE_LINUX_SLL:
+      return frame.byteLength >= 16 && frame.readUInt16BE(14) === ETHERTYPE_IPV4
+        ? 16
+        : null;
+    case LINKTYPE_LINUX_SLL2:
+      return frame.byteLength >= 20 && frame.readUInt16BE(0) === ETHERTYPE_IPV4
+        ? 20
+        : null;
+    case LINKTYPE_NULL:
+    case LINKTYPE_LOOP:
+      // Address family may be in host byte order of the capturing machine.
+      return frame.byteLength >= 4 &&
+        (frame.readUInt32LE(0) === AF_INET || frame.readUInt32BE(0) === AF_INET)
+        ? 4
+        : null;
+    case LINKTYPE_RAW:
+    case LINKTYPE_IPV4:
+      return 0;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Extracts UDP datagram from the link layer frame.
+ *
+ * @param linkType - link layer type
+ * @param frame - link layer frame
+ * @param time - capture time in milliseconds
+ * @returns UDP datagram or `null` if frame doesn't contain IPv4 UDP datagram
+ *
+ * @remarks
+ * Fragmented IPv4 packets are skipped (miIO packets are small enough).
+ */
+function extractDatagram(
+  linkType: number,
+  frame: Buffer,
+  time: number,
+): CapturedDatagram | null {
+  const offset = ipOffset(linkType, frame);
+
+  if (offset === null || frame.byteLength < offset + 20) {
+    return null;
+  }
+
+  const ip = frame.subarray(offset);
+
+  if (ip[0] >> 4 !== 4 || ip[9] !== IPPROTO_UDP) {
+    return null;
+  }
+
+  const fragment = ip.readUInt16BE(6);
+
+  // More fragments flag or non-zero fragment offset.
+  if (fragment & 0x3fff) {
+    return null;
+  }
+
+  const ihl = (ip[0] & 0x0f) * 4;
+  const totalLength = Math.min(ip.readUInt16BE(2), ip.byteLength);
+
+  if (totalLength < ihl + 8) {
+    return null;
+  }
+
+  const udp = ip.subarray(ihl, totalLength);
+  const udpLength = Math.min(udp.readUInt16BE(4), udp.byteLength);
+
+  return {
+    time,
+    srcAddress: ip.subarray(12, 16).join("."),
+    srcPort: udp.readUInt16BE(0),
+    dstAddress: ip.subarray(16, 20).join("."),
+    dstPort: udp.readUInt16BE(2),
+    data: udp.subarray(8, udpLength),
+  };
+}
+
+/**
+ * Reads UDP datagrams from pcap file.
+ *
+ * @param buf - pcap file contents
+ * @returns list of UDP datagrams
+ */
+function readPcap(buf: Buffer): CapturedDatagram[] {
+  const magic = buf.readUInt32LE(0);
+  const le = magic === PCAP_MAGIC_US || magic === PCAP_MAGIC_NS;
+  const readUInt32 = (offset: number): number =>
+    le ? buf.readUInt32LE(offset) : buf.readUInt32BE(offset);
+  const nano = (le ? magic : buf.readUInt32BE(0)) === PCAP_MAGIC_NS;
+  const linkType = readUInt32(20) & 0xffff;
+  const datagrams = [];
+
+  let offset = 24;
+
+  while (offset + 16 <= buf.byteLength) {
+    const seconds = readUInt32(offset);
+    const fraction = readUInt32(offset + 4);
+    const capturedLength = readUInt32(offset + 8);
+    const time = seconds * 1000 + (nano ? fraction / 1e6 : fraction / 1e3);
+    const frame = buf.subarray(offset + 16, offset + 16 + capturedLength);
+
+    const datagram = extractDatagram(linkType, frame, time);
+    if (datagram) {
+      datagrams.push(datagram);
+    }
+
+    offset += 16 + capturedLength;
+  }
+
+  return datagrams;
+}
+
+/**
+ * Reads UDP datagrams from pcapng file.
+ *
+ * @param buf - pcapng file contents
+ * @returns list of UDP datagrams
+ *
+ * @remarks
+ * Simple packet blocks have no timestamp, their time is `0`.
+ */
+function readPcapng(buf: Buffer): CapturedDatagram[] {
+  const datagrams = [];
+
+  let le = true;
+  let interfaces: { linkType: number; resolution: number }[] = [];
+  let offset = 0;
+
+  const readUInt32 = (offset: number): number =>
+    le ? buf.readUInt32LE(offset) : buf.readUInt32BE(offset);
+  const readUInt16 = (offset: number): number =>
+    le ? buf.readUInt16LE(offset) : buf.readUInt16BE(offset);
+
+  while (offset + 12 <= buf.byteLength) {
+    const type = buf.readUInt32LE(offset);
+
+    // Each section may have its own byte order and interfaces.
+    if (type === PCAPNG_SHB) {
+      le = buf.readUInt32LE(offset + 8) === PCAPNG_BYTE_ORDER_MAGIC;
+      interfaces = [];
+    }
+
+    const blockType = readUInt32(offset);
+    const length = readUInt32(offset + 4);
+
+    if (length < 12 || offset + length > buf.byteLength) {
+      break;
+    }
+
+    const body = offset + 8;
+
+    if (blockType === PCAPNG_IDB) {
+      let resolution = 1e-6;
+
+      // Look for if_tsresol option.
+      let opt = body + 8;
+      while (opt + 4 <= offset + length - 4) {
+        const code = readUInt16(opt);
+        const optLength = readUInt16(opt + 2);
+        if (code === 0) {
+          break;
+        }
+        if (code === 9 && optLength >= 1) {
+          const value = buf[opt + 4];
+          resolution =
+            value & 0x80 ? 2 ** -(value & 0x7f) : 10 ** -(value & 0x7f);
+        }
+        opt += 4 + Math.ceil(optLength / 4) * 4;
+      }
+
+      interfaces.push({ linkType: readUInt16(body), resolution });
+    } else if (blockType === PCAPNG_EPB && length >= PCAPNG_EPB_MIN_LENGTH) {
+      const iface = interfaces[readUInt32(body)];
+      const ticks = readUInt32(body + 4) * 2 ** 32 + readUInt32(body + 8);
+      const capturedLength = readUInt32(body + 12);
+      const frame = buf.subarray(body + 20, body + 20 + capturedLength);
+
+      // Malformed block: captured data doesn't fit into the block.
+      if (iface && body + 20 + capturedLength <= offset + length - 4) {
+        const time = ticks * iface.resolution * 1000;
+        const datagram = extractDatagram(iface.linkType, frame, time);
+        if (datagram) {
+          datagrams.push(datagram);
+        }
+      }
+    } else if (blockType === PCAPNG_SPB) {
+      const iface = interfaces[0];
+      const frame = buf.subarray(body + 4, offset + length - 4);
+
+      if (iface) {
+        const datagram = extractDatagram(iface.linkType, frame, 0);
+        if (datagram) {
+          datagrams.push(datagram);
+        }
+      }
+    }
+
+    offset += length;
+  }
+
+  return datagrams;
+}
+
+/**
+ * Reads UDP datagrams from pcap or pcapng file.
+ *
+ * @param buf - capture file contents
+ * @returns list of IPv4 UDP datagrams in capture order
+ */
+export function readCapture(buf: Buffer): CapturedDatagram[] {
+  if (buf.byteLength < 24) {
+    throw new Error("Capture file is too short");
+  }
+
+  const magic = buf.readUInt32LE(0);
+
+  if (magic === PCAPNG_SHB) {
+    return readPcapng(buf);
+  }
+
+  if (
+    [PCAP_MAGIC_US, PCAP_MAGIC_NS].includes(magic) ||
+    [PCAP_MAGIC_US, PCAP_MAGIC_NS].includes(buf.readUInt32BE(0))
+  ) {
+    return readPcap(buf);
+  }
+
+  throw new Error("Unknown capture file format");
+}
+
+/**
+ * Parses and decrypts miIO packet.
+ *
+ * @param datagram - UDP datagram
+ * @param tokens - device tokens by device id
+ * @returns decoded packet or `null` if datagram is not a miIO packet
+ */
+function decodePacket(
+  datagram: CapturedDatagram,
+  tokens: Record<number, string>,
+): DecodedPacket | null {
+  let packet;
+
+  try {
+    packet = Packet.fromBuffer(datagram.data);
+  } catch (err) {
+    return null;
+  }
+
+  const handshake = Protocol.isHandshake(packet);
+  const decoded: DecodedPacket = {
+    time: datagram.time,
+    from: `${datagram.srcAddress}:${datagram.srcPort}`,
+    to: `${datagram.dstAddress}:${datagram.dstPort}`,
+    deviceId: packet.deviceId,
+    timestamp: packet.timestamp,
+    handshake,
+    checksumValid: null,
+  };
+
+  if (handshake) {
+    return decoded;
+  }
+
+  const token = tokens[packet.deviceId];
+
+  if (!token) {
+    decoded.data = packet.data.toString("hex");
+    return decoded;
+  }
+
+  const protocol = new Protocol(packet.deviceId, Buffer.from(token, "hex"));
+
+  try {
+    decoded.payload = protocol.unpackResponse(packet);
+    decoded.checksumValid = true;
+  } catch (err) {
+    decoded.checksumValid = !(err instanceof ChecksumError);
+    decoded.error = (err as Error).message;
+    decoded.data = packet.data.toString("hex");
+  }
+
+  return decoded;
+}
+
+/**
+ * Returns id of the request or response payload.
+ *
+ * @param decoded - decoded packet
+ * @returns payload id or `undefined` if payload is not decrypted
+ */
+function payloadId(decoded: DecodedPacket): unknown {
+  const payload = decoded.payload as { id?: unknown } | undefined;
+  return payload?.id;
+}
+
+/**
+ * Builds request/response transcript of miIO traffic.
+ *
+ * @param datagrams - captured UDP datagrams
+ * @param options - decode options
+ * @param options.tokens - device tokens (hex) by device id
+ * @param options.port - device port
+ * @returns list of transcript entries ordered by request (or unmatched response) time
+ *
+ * @remarks
+ * Packets sent to the device port are requests, packets sent from it
+ * are responses. Responses are matched to requests by client address,
+ * device id and payload id (or in order if payload can't be decrypted).
+ * Responses which match no request (e.g. pushed by the device) have `request` set to `null`.
+ */
+export function buildTranscript(
+  datagrams: CapturedDatagram[],
+  options?: DecodeCaptureOptions,
+): TranscriptEntry[] {
+  const port = options?.port || Device.PORT;
+  const tokens = options?.tokens || {};
+  const transcript: TranscriptEntry[] = [];
+  const pending: TranscriptEntry[] = [];
+
+  for (const datagram of datagrams) {
+    const isRequest = datagram.dstPort === port;
+
+    if (!isRequest && datagram.srcPort !== port) {
+      continue;
+    }
+
+    const decoded = decodePacket(datagram, tokens);
+
+    if (!decoded) {
+      continue;
+    }
+
+    if (isRequest) {
+      const entry = {
+        handshake: decoded.handshake,
+        device: datagram.dstAddress,
+        deviceId: decoded.deviceId,
+        request: decoded,
+        response: null,
+        latency: null,
+      };
+      transcript.push(entry);
+      pending.push(entry);
+      continue;
+    }
+
+    // Handshake requests are sent with unknown device id (maybe to broadcast address).
+    const index = pending.findIndex(
+      ({ request, device, deviceId, handshake }) =>
+        request !== null &&
+        request.from === decoded.to &&
+        handshake === decoded.handshake &&
+        (handshake ||
+          (device === datagram.srcAddress &&
+            deviceId === decoded.deviceId &&
+            payloadId(request) === payloadId(decoded))),
+    );
+
+    if (index === -1) {
+      transcript.push({
+        handshake: decoded.handshake,
+        device: datagram.srcAddress,
+        deviceId: decoded.deviceId,
+        request: null,
+        response: decoded,
+        latency: null,
+      });
+      continue;
+    }
+
+    const [entry] = pending.splice(index, 1);
+    entry.response = decoded;
+    entry.device = datagram.srcAddress;
+    entry.deviceId = decoded.deviceId;
+    entry.latency = decoded.time - (entry.request as DecodedPacket).time;
+  }
+
+  return transcript;
+}
+
+/**
+ * Reads capture file and builds transcript of miIO traffic.
+ *
+ * @param path - path to pcap or pcapng file
+ * @param options - decode options (see `buildTranscript`)
+ * @returns list of transcript entries
+ */
+export async function decodeCapture(
+  path: string,
+  options?: DecodeCaptureOptions,
+): Promise<TranscriptEntry[]> {
+  const buf = await fs.readFile(path);
+  return buildTranscript(readCapture(buf), options);
+}
@@ -0,0 +1,262 @@
+import { isUnreachable } from "./retry";
+
+export type WatchOptions = {
+  interval?: number;
+  maxInterval?: number;
+};
+
+export type PropertyChange = {
+  name: string;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+export type PollerHandlers = {
+  change: (change: PropertyChange) => void;
+  online: () => void;
+  offline: (err: Error) => void;
+  error: (err: Error) => void;
+};
+
+type Subscription = {
+  props: string[];
+  interval: number;
+  maxInterval: number;
+};
+
+class Poller {
+  static DEFAULT_WATCH_OPTIONS: Required<WatchOptions> = {
+    interval: 5000,
+    maxInterval: 60000,
+  };
+
+  private fetch: (props: string[]) => Promise<unknown[]>;
+  private handlers: PollerHandlers;
+  private subscriptions: Set<Subscription>;
+  private snapshot: Map<string, unknown>;
+  private online: boolean | null;
+  private failures: number;
+  private timer: NodeJS.Timer | null;
+  private polling: boolean;
+
+  /**
+   * Represents a single shared poll of device properties.
+   *
+   * @param fetch - function which returns values of the given properties
+   * @param handlers - change and reachability handlers
+   *
+   * @remarks
+   * Properties of all subscriptions are fetched with a single request using
+   * the smallest interval of all subscriptions. When device is unreachable
+   * interval is doubled after each failure up to `maxInterval`.
+   */
+  constructor(
+    fetch: (props: string[]) => Promise<unknown[]>,
+    handlers: PollerHandlers,
+  ) {
+    this.fetch = fetch;
+    this.handlers = handlers;
+    this.subscriptions = new Set();
+    this.snapshot = new Map();
+    this.online = null;
+    this.failures = 0;
+    this.timer = null;
+    this.polling = false;
+  }
+
+  /**
+   * Starts watching properties.
+   *
+   * @param props - property names
+   * @param watchOptions - watch options
+   * @param watchOptions.interval - poll interval in milliseconds
+   * @param watchOptions.maxInterval - max poll interval while device is unreachable
+   * @returns function which stops watching
+   */
+  subscribe(props: string[], watchOptions?: WatchOptions): () => void {
+    const options = { ...Poller.DEFAULT_WATCH_OPTIONS };
+
+    // Undefined values must not override defaults.
+    if (watchOptions?.interval !== undefined) {
+      options.interval = watchOptions.interval;
+    }
+    if (watchOptions?.maxInterval !== undefined) {
+      options.maxInterval = watchOptions.maxInterval;
+    }
+
+    const subscription = { props: [...props], ...options };
+
+    this.subscriptions.add(subscription);
+
+    // Poll new properties as soon as possible.
+    if (props.some((prop) => !this.snapshot.has(prop))) {
+      this.schedule(0);
+    }
+
+    return () => this.unsubscribe(subscription);
+  }
+
+  /**
+   * Stops all subscriptions.
+   */
+  stop(): void {
+    this.subscriptions.clear();
+    this.snapshot.clear();
+    this.cancel();
+  }
+
+  /**
+   * Removes subscription and forgets properties nobody watches anymore.
+   *
+   * @param subscription - subscription to remove
+   */
+  private unsubscribe(subscription: Subscription): void {
+    this.subscriptions.delete(subscription);
+
+    const props = this.props();
+    for (const name of this.snapshot.keys()) {
+      if (!props.includes(name)) {
+        this.snapshot.delete(name);
+      }
+    }
+
+    if (this.subscriptions.size === 0) {
+      this.cancel();
+    }
+  }
+
+  /**
+   * Returns union of properties of all subscriptions.
+   *
+   * @returns list of unique property names
+   */
+  private props(): string[] {
+    const props = new Set<string>();
+    this.subscriptions.forEach((s) => s.props.forEach((p) => props.add(p)));
+    return [...props];
+  }
+
+  /**
+   * Returns delay before the next poll.
+   *
+   * @returns delay in milliseconds
+   */
+  private delay(): number {
+    const subscriptions = [...this.subscriptions];
+    const interval = Math.min(...subscriptions.map((s) => s.interval));
+
+    if (this.failures === 0) {
+      return interval;
+    }
+
+    const maxInterval = Math.min(...subscriptions.map((s) => s.maxInterval));
+    return Math.min(interval * 2 ** this.failures, maxInterval);
+  }
+
+  /**
+   * Schedules next poll.
+   *
+   * @param delay - delay in milliseconds
+   */
+  private schedule(delay: number): void {
+    // Poll in progress schedules next one by itself.
+    if (this.polling) {
+      return;
+    }
+    this.cancel();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.poll();
+    }, delay);
+  }
+
+  /**
+   * Cancels scheduled poll.
+   */
+  private cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fetches properties and emits changes.
+   */
+  private async poll(): Promise<void> {
+    const props = this.props();
+
+    if (props.length === 0) {
+      return;
+    }
+
+    this.polling = true;
+
+    let failed = false;
+
+    try {
+      const values = await this.fetch(props);
+
+      this.failures = 0;
+      if (this.online !== true) {
+        this.online = true;
+        this.handlers.online();
+      }
+
+      props.forEach((name, i) => {
+        // Property may be unwatched while request was in flight.
+        if (!this.props().includes(name)) {
+          return;
+        }
+
+        const oldValue = this.snapshot.get(name);
+        const newValue = values[i];
+
+        if (!this.snapshot.has(name) || !isEqual(oldValue, newValue)) {
+          this.snapshot.set(name, newValue);
+          this.handlers.change({ name, oldValue, newValue });
+        }
+      });
+    } catch (err) {
+      failed = true;
+
+      // Poller may be stopped while request was in flight.
+      const watched = this.subscriptions.size > 0;
+
+      if (isUnreachable(err)) {
+        this.failures++;
+        if (this.online !== false && watched) {
+          this.online = false;
+          this.handlers.offline(err as Error);
+        }
+      } else {
+        // Device responded (e.g. with error), keep polling at normal rate.
+        this.failures = 0;
+        if (watched) {
+          this.handlers.error(err as Error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    if (this.subscriptions.size > 0) {
+      // Properties subscribed while request was in flight are polled at once.
+      const hasNew = this.props().some((prop) => !this.snapshot.has(prop));
+      this.schedule(hasNew && !failed ? 0 : this.delay());
+    }
+  }
+}
+
+/**
+ * Compares two JSON values.
+ *
+ * @param a - first value
+ * @param b - second value
+ * @returns `true` if values are equal
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+export default Poller;
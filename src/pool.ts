@@ -0,0 +1,470 @@
+import dgram from "dgram";
+import Device, { CallOptions } from "./device";
+import { QueueOptions } from "./queue";
+import { Middleware } from "./middleware";
+import Packet from "./packet";
+import logger from "./logger";
+import { SocketError, ValidationError, ErrorCode } from "./errors";
+import { AbortSignalLike } from "./abort";
+import {
+  Transport,
+  ParseFunc,
+  MatchFunc,
+  MessageListener,
+  PendingRequests,
+} from "./transport";
+
+export type DevicePoolOptions = {
+  sockets?: number;
+  callOptions?: CallOptions;
+  queue?: QueueOptions;
+  middlewares?: Middleware[];
+};
+
+type PoolEntry = {
+  token: string;
+  device: Promise<Device>;
+};
+
+const log = logger.child({ module: "pool" });
+
+/**
+ * Represents UDP socket shared by many devices.
+ */
+class SharedSocket {
+  private socket: dgram.Socket;
+  private bindPromise: Promise<void> | null;
+  private transports: Map<string, Set<PoolTransport>>;
+
+  constructor() {
+    this.socket = dgram.createSocket("udp4");
+    this.bindPromise = null;
+    this.transports = new Map();
+
+    this.socket.on("message", (msg: Buffer, rinfo: dgram.RemoteInfo) => {
+      this.dispatch(msg, rinfo.address);
+    });
+
+    this.socket.on("error", (err: Error) => {
+      log.error("socket error", { error: String(err) });
+      const error = new SocketError(err.message);
+      for (const set of this.transports.values()) {
+        set.forEach((transport) => transport.fail(error));
+      }
+    });
+  }
+
+  /**
+   * Returns number of transports using the socket.
+   *
+   * @returns number of registered transports
+   */
+  get size(): number {
+    let size = 0;
+    this.transports.forEach((set) => (size += set.size));
+    return size;
+  }
+
+  /**
+   * Binds socket to random port.
+   *
+   * @returns `Promise` which will be resolved when socket is bound
+   *
+   * @remarks
+   * If called simultaneous do bind only once and return same promise for
+   * all callers
+   */
+  bind(): Promise<void> {
+    if (!this.bindPromise) {
+      this.bindPromise = new Promise((resolve) => {
+        this.socket.bind(() => resolve());
+      });
+    }
+    return this.bindPromise;
+  }
+
+  /**
+   * Registers transport to receive messages from its address.
+   *
+   * @param transport - transport to register
+   */
+  register(transport: PoolTransport): void {
+    const set = this.transports.get(transport.address) || new Set();
+    set.add(transport);
+    this.transports.set(transport.address, set);
+  }
+
+  /**
+   * Unregisters transport.
+   *
+   * @param transport - transport to unregister
+   */
+  unregister(transport: PoolTransport): void {
+    const set = this.transports.get(transport.address);
+    if (set) {
+      set.delete(transport);
+      if (set.size === 0) {
+        this.transports.delete(transport.address);
+      }
+    }
+  }
+
+  /**
+   * Sends data to the given address.
+   *
+   * @param data - data to send
+   * @param port - destination port
+   * @param address - destination IP address
+   * @returns `Promise` which will be resolved when data is sent
+   */
+  async send(data: Buffer, port: number, address: string): Promise<void> {
+    await this.bind();
+    await new Promise<void>((resolve, reject) => {
+      this.socket.send(data, port, address, (err) => {
+        if (err) {
+          reject(new SocketError(err.message));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Routes incoming message to the transports by source address and device id.
+   *
+   * @param msg - incoming message
+   * @param address - source address
+   */
+  private dispatch(msg: Buffer, address: string): void {
+    const set = this.transports.get(address);
+
+    if (!set) {
+      log.debug("<- no devices, dropped", { address });
+      return;
+    }
+
+    const deviceId = Packet.peekDeviceId(msg);
+
+    for (const transport of set) {
+      if (transport.accepts(deviceId) && transport.receive(msg)) {
+        return;
+      }
+    }
+
+    log.debug("<- unmatched message, dropped", { address });
+  }
+
+  /**
+   * Closes socket.
+   */
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      try {
+        this.socket.close(() => resolve());
+      } catch (err) {
+        resolve();
+      }
+    });
+  }
+}
+
+/**
+ * Represents a `Transport` of a single device on the shared socket.
+ */
+export class PoolTransport implements Transport {
+  address: string;
+  port: number;
+
+  /**
+   * Device id used to demultiplex messages (`null` until handshake).
+   */
+  deviceId: number | null;
+
+  private socket: SharedSocket;
+  private pending: PendingRequests;
+  private listener: MessageListener | null;
+  private onClose: (transport: PoolTransport) => void;
+
+  constructor(
+    socket: SharedSocket,
+    address: string,
+    port: number,
+    onClose: (transport: PoolTransport) => void,
+  ) {
+    this.socket = socket;
+    this.address = address;
+    this.port = port;
+    this.deviceId = null;
+    this.pending = new PendingRequests();
+    this.listener = null;
+    this.onClose = onClose;
+    this.socket.register(this);
+  }
+
+  /**
+   * Checks if message with the given device id belongs to this transport.
+   *
+   * @param deviceId - device id from packet header
+   * @returns `true` if message should be passed to this transport
+   */
+  accepts(deviceId: number | null): boolean {
+    return this.deviceId === null || deviceId === this.deviceId;
+  }
+
+  /**
+   * Passes message to the pending requests or to the listener.
+   *
+   * @param msg - incoming message
+   * @returns `true` if message was consumed
+   */
+  receive(msg: Buffer): boolean {
+    if (this.pending.dispatch(msg)) {
+      return true;
+    }
+    if (this.listener && this.deviceId !== null) {
+      this.listener(msg);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Rejects all pending requests.
+   *
+   * @param err - rejection reason
+   */
+  fail(err: Error): void {
+    this.pending.fail(err);
+  }
+
+  /**
+   * Sends data using shared socket and returns response wrapped in `Promise`.
+   *
+   * @param data - data to send
+   * @param parse - parse function
+   * @param match - match function (checks if response matches the request)
+   * @param timeout - response timeout
+   * @param signal - abort signal
+   * @returns `Promise` which will be resolved when matched response come or
+   *    rejected in case of error, timeout or abort
+   */
+  send<ResponseType>(
+    data: Buffer,
+    parse: ParseFunc<ResponseType>,
+    match: MatchFunc<ResponseType>,
+    timeout = 5000,
+    signal?: AbortSignalLike,
+  ): Promise<ResponseType> {
+    return this.pending.wait(
+      parse,
+      match,
+      timeout,
+      () => this.socket.send(data, this.port, this.address),
+      signal,
+    );
+  }
+
+  /**
+   * Sets listener for messages which did not match any pending request.
+   *
+   * @param listener - message listener
+   */
+  listen(listener: MessageListener): void {
+    this.listener = listener;
+  }
+
+  /**
+   * Changes device address (messages are demultiplexed by the new address).
+   *
+   * @param address - new device IP address
+   */
+  setAddress(address: string): void {
+    this.socket.unregister(this);
+    this.address = address;
+    this.socket.register(this);
+  }
+
+  /**
+   * Rejects pending requests and detaches transport from the shared socket.
+   */
+  async close(): Promise<void> {
+    this.fail(
+      new SocketError("Transport is closed", {
+        code: ErrorCode.CLOSED,
+      }),
+    );
+    this.socket.unregister(this);
+    this.onClose(this);
+  }
+}
+
+class DevicePool {
+  private sockets: SharedSocket[];
+  private devices: Map<string, PoolEntry>;
+  private callOptions?: CallOptions;
+  private queueOptions?: QueueOptions;
+  private middlewares: Middleware[];
+
+  /**
+   * Represents a pool of devices sharing a few UDP sockets.
+   *
+   * @param options - pool options
+   * @param options.sockets - number of shared sockets
+   * @param options.callOptions - default handshake options
+   * @param options.queue - request queue options of each device
+   * @param options.middlewares - call middlewares of each device (see `Device.use`)
+   *
+   * @remarks
+   * Incoming messages are demultiplexed by source address and device id
+   * and passed only to pending calls of the corresponding device.
+   */
+  constructor(options?: DevicePoolOptions) {
+    const count = Math.max(1, options?.sockets || 1);
+    this.sockets = [...Array(count)].map(() => new SharedSocket());
+    this.devices = new Map();
+    this.callOptions = options?.callOptions;
+    this.queueOptions = options?.queue;
+    this.middlewares = [...(options?.middlewares || [])];
+  }
+
+  /**
+   * Adds middleware to all devices of the pool (including devices added later).
+   *
+   * @param middleware - middleware (see `Device.use`)
+   * @returns the same pool
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    this.devices.forEach(({ device }) =>
+      device.then((device) => device.use(middleware)).catch(() => undefined),
+    );
+    return this;
+  }
+
+  /**
+   * Returns number of devices in the pool.
+   *
+   * @returns number of devices
+   */
+  get size(): number {
+    return this.devices.size;
+  }
+
+  /**
+   * Returns ready to use device from the pool (makes handshake if device
+   * is not in the pool yet).
+   *
+   * @param address - device IP address
+   * @param token - device token
+   * @param callOptions - handshake options
+   * @returns `Device` instance
+   *
+   * @remarks
+   * Rejects with `ValidationError` if device with the address is already
+   * in the pool with another token.
+   */
+  get(
+    address: string,
+    token: string,
+    callOptions?: CallOptions,
+  ): Promise<Device> {
+    const entry = this.devices.get(address);
+
+    if (entry) {
+      if (entry.token.toLowerCase() !== token.toLowerCase()) {
+        return Promise.reject(
+          new ValidationError(
+            `Device ${address} is already in the pool with another token`,
+            { address },
+          ),
+        );
+      }
+      return entry.device;
+    }
+
+    const device = this.create(address, token, callOptions);
+    this.devices.set(address, { token, device });
+
+    // Failed device must not stay in the pool.
+    device.catch(() => {
+      if (this.devices.get(address)?.device === device) {
+        this.devices.delete(address);
+      }
+    });
+
+    return device;
+  }
+
+  /**
+   * Makes handshake with the device using shared socket.
+   *
+   * @param address - device IP address
+   * @param token - device token
+   * @param callOptions - handshake options
+   * @returns `Device` instance
+   */
+  private async create(
+    address: string,
+    token: string,
+    callOptions?: CallOptions,
+  ): Promise<Device> {
+    const transport = new PoolTransport(
+      this.pickSocket(),
+      address,
+      Device.PORT,
+      (transport) => this.devices.delete(transport.address),
+    );
+
+    const device = await Device.discover(
+      {
+        address,
+        token,
+        transport,
+        queue: this.queueOptions,
+        middlewares: this.middlewares,
+      },
+      { ...this.callOptions, ...callOptions },
+    );
+    transport.deviceId = device.id;
+
+    // Relocated device must be found by its new address.
+    device.on("moved", (address, previous) => {
+      const entry = this.devices.get(previous);
+      if (entry) {
+        this.devices.delete(previous);
+        this.devices.set(address, entry);
+      }
+    });
+
+    return device;
+  }
+
+  /**
+   * Returns the least loaded shared socket.
+   *
+   * @returns shared socket
+   */
+  private pickSocket(): SharedSocket {
+    return this.sockets.reduce((min, socket) =>
+      socket.size < min.size ? socket : min,
+    );
+  }
+
+  /**
+   * Destroys all devices and closes shared sockets.
+   */
+  async destroyAll(): Promise<void> {
+    const devices = [...this.devices.values()].map(({ device }) => device);
+    this.devices.clear();
+
+    await Promise.all(
+      devices.map((device) =>
+        device.then((device) => device.destroy()).catch(() => undefined),
+      ),
+    );
+    await Promise.all(this.sockets.map((socket) => socket.close()));
+  }
+}
+
+export default DevicePool;
@@ -0,0 +1,442 @@
+import Device, { CallOptions, DiscoverParams } from "./device";
+import {
+  MalformedResponseError,
+  ProfileError,
+  ValidationError,
+} from "./errors";
+
+export type ValueType = "string" | "number" | "boolean";
+
+/**
+ * Description of a value (property value or action parameter).
+ */
+export type ValueSpec<S extends string = string, N extends number = number> = {
+  type: ValueType;
+  enum?: readonly (S | N)[];
+  min?: number;
+  max?: number;
+  description?: string;
+};
+
+/**
+ * Description of a device property.
+ */
+export type PropertyProfile<
+  S extends string = string,
+  N extends number = number,
+> = ValueSpec<S, N> & {
+  /**
+   * Property name in `get_prop` (profile key by default).
+   */
+  name?: string;
+
+  /**
+   * Method which sets the property (value is passed as the only parameter).
+   */
+  set?: string;
+};
+
+/**
+ * Description of a device action.
+ */
+export type ActionProfile<
+  S extends string = string,
+  N extends number = number,
+> = {
+  method: string;
+  params?: readonly [] | readonly [ValueSpec<S, N>, ...ValueSpec<S, N>[]];
+  description?: string;
+};
+
+/**
+ * Declarative description of device models (can be loaded from JSON).
+ */
+export type DeviceProfile<
+  S extends string = string,
+  N extends number = number,
+> = {
+  /**
+   * Models described by the profile (as reported by `miIO.info`).
+   */
+  models: readonly string[];
+  properties: Record<string, PropertyProfile<S, N>>;
+  actions?: Record<string, ActionProfile<S, N>>;
+};
+
+/**
+ * Returns TypeScript type of the value described by `V`.
+ */
+export type ValueOf<V> = V extends { enum: readonly (infer E)[] }
+  ? E
+  : V extends { type: "number" }
+  ? number
+  : V extends { type: "boolean" }
+  ? boolean
+  : V extends { type: "string" }
+  ? string
+  : unknown;
+
+type Properties<P extends DeviceProfile> = P["properties"];
+
+type Actions<P extends DeviceProfile> = P["actions"] extends Record<
+  string,
+  ActionProfile
+>
+  ? P["actions"]
+  : Record<string, never>;
+
+type ParamsOf<A> = A extends { params: infer T }
+  ? { -readonly [I in keyof T]: ValueOf<T[I]> }
+  : [];
+
+// Action parameters followed by optional call options.
+type ArgsOf<A> = ParamsOf<A> extends infer P
+  ? P extends unknown[]
+    ? [...P, CallOptions?]
+    : never
+  : never;
+
+/**
+ * Values of all properties of the profile.
+ */
+export type ProfileValues<P extends DeviceProfile> = {
+  [K in keyof Properties<P>]: ValueOf<Properties<P>[K]>;
+};
+
+/**
+ * Device with typed methods generated from the profile: `get<Name>` for each
+ * property, `set<Name>` for each property with setter and a method for each
+ * action (action parameters may be followed by call options).
+ */
+export type ProfiledDevice<P extends DeviceProfile> = {
+  device: Device;
+  profile: P;
+
+  /**
+   * Returns values of all properties.
+   */
+  getProps(callOptions?: CallOptions): Promise<ProfileValues<P>>;
+} & {
+  [K in keyof Properties<P> & string as `get${Capitalize<K>}`]: (
+    callOptions?: CallOptions,
+  ) => Promise<ValueOf<Properties<P>[K]>>;
+} & {
+  [K in keyof Properties<P> & string as Properties<P>[K] extends { set: string }
+    ? `set${Capitalize<K>}`
+    : never]: (
+    value: ValueOf<Properties<P>[K]>,
+    callOptions?: CallOptions,
+  ) => Promise<void>;
+} & {
+  [K in keyof Actions<P> & string]: (
+    ...args: ArgsOf<Actions<P>[K]>
+  ) => Promise<unknown>;
+};
+
+export type DeviceDefinition<P extends DeviceProfile> = {
+  profile: P;
+
+  /**
+   * Returns profiled wrapper of the device.
+   */
+  wrap(device: Device): ProfiledDevice<P>;
+
+  /**
+   * Discovers device (see `Device.discover`) and returns its profiled wrapper.
+   */
+  discover(
+    params: DiscoverParams,
+    callOptions?: CallOptions,
+  ): Promise<ProfiledDevice<P>>;
+};
+
+const VALUE_TYPES: ValueType[] = ["string", "number", "boolean"];
+
+// Members of the profiled device which are not generated from the profile.
+const RESERVED_NAMES = ["device", "profile", "getProps"];
+
+const definitions = new Map<string, DeviceDefinition<DeviceProfile>>();
+
+/**
+ * Returns `name` with the first letter in upper case.
+ *
+ * @param name - name
+ * @returns capitalized name
+ */
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Returns description of the first mismatch of the value and the spec.
+ *
+ * @param value - value to check
+ * @param spec - value description
+ * @returns mismatch description or `null` if value matches the spec
+ */
+function mismatch(value: unknown, spec: ValueSpec): string | null {
+  if (typeof value !== spec.type) {
+    return `expected ${spec.type}, got ${JSON.stringify(value)}`;
+  }
+  if (spec.enum && !spec.enum.includes(value as string | number)) {
+    return `expected one of ${JSON.stringify(spec.enum)}, got ${JSON.stringify(
+      value,
+    )}`;
+  }
+  if (
+    typeof value === "number" &&
+    ((spec.min !== undefined && value < spec.min) ||
+      (spec.max !== undefined && value > spec.max))
+  ) {
+    return `expected value in [${spec.min ?? "-Infinity"}, ${
+      spec.max ?? "Infinity"
+    }], got ${value}`;
+  }
+  return null;
+}
+
+/**
+ * Checks value passed to the device.
+ *
+ * @param value - value to check
+ * @param spec - value description
+ * @param what - value name used in the error message
+ * @param method - device method
+ */
+function checkParam(
+  value: unknown,
+  spec: ValueSpec,
+  what: string,
+  method: string,
+): void {
+  const reason = mismatch(value, spec);
+  if (reason) {
+    throw new ValidationError(`Invalid ${what}: ${reason}`, {
+      method,
+      params: [value],
+    });
+  }
+}
+
+/**
+ * Checks value returned by the device.
+ *
+ * @param value - value to check
+ * @param spec - value description
+ * @param what - value name used in the error message
+ * @param device - device
+ * @returns the same value
+ */
+function checkResult(
+  value: unknown,
+  spec: ValueSpec,
+  what: string,
+  device: Device,
+): unknown {
+  const reason = mismatch(value, spec);
+  if (reason) {
+    throw new MalformedResponseError(`Invalid ${what}: ${reason}`, {
+      method: "get_prop",
+      address: device.address,
+      deviceId: device.id,
+    });
+  }
+  return value;
+}
+
+/**
+ * Checks profile structure (profiles may come from JSON).
+ *
+ * @param profile - device profile
+ */
+function checkProfile(profile: DeviceProfile): void {
+  const fail = (reason: string): never => {
+    throw new ProfileError(`Invalid profile: ${reason}`);
+  };
+
+  if (!Array.isArray(profile.models) || profile.models.length === 0) {
+    fail("models must be a non-empty array");
+  }
+
+  const checkSpec = (spec: ValueSpec, what: string): void => {
+    if (!VALUE_TYPES.includes(spec?.type)) {
+      fail(`${what} has invalid type ${JSON.stringify(spec?.type)}`);
+    }
+  };
+
+  Object.entries(profile.properties || {}).forEach(([name, spec]) =>
+    checkSpec(spec, `property ${name}`),
+  );
+  const members = [
+    ...RESERVED_NAMES,
+    ...Object.keys(profile.properties || {}).map(
+      (key) => `get${capitalize(key)}`,
+    ),
+    ...Object.keys(profile.properties || {}).map(
+      (key) => `set${capitalize(key)}`,
+    ),
+  ];
+
+  Object.entries(profile.actions || {}).forEach(([name, action]) => {
+    if (members.includes(name)) {
+      fail(`action ${name} conflicts with generated method`);
+    }
+    if (typeof action.method !== "string") {
+      fail(`action ${name} has no method`);
+    }
+    (action.params || []).forEach((spec: ValueSpec, i: number) =>
+      checkSpec(spec, `parameter ${i} of action ${name}`),
+    );
+  });
+}
+
+/**
+ * Returns profiled wrapper of the device.
+ *
+ * @param profile - device profile
+ * @param device - device
+ * @returns object with methods generated from the profile
+ */
+function wrap<P extends DeviceProfile>(
+  profile: P,
+  device: Device,
+): ProfiledDevice<P> {
+  const properties = Object.entries(profile.properties);
+  const wrapper: Record<string, unknown> = {
+    device,
+    profile,
+    getProps: async (callOptions?: CallOptions) => {
+      const values = await device.getProps(
+        properties.map(([key, spec]) => spec.name || key),
+        callOptions,
+      );
+      const result: Record<string, unknown> = {};
+      properties.forEach(([key, spec]) => {
+        result[key] = checkResult(
+          values[spec.name || key],
+          spec,
+          `property ${key}`,
+          device,
+        );
+      });
+      return result;
+    },
+  };
+
+  properties.forEach(([key, spec]) => {
+    const name = spec.name || key;
+
+    wrapper[`get${capitalize(key)}`] = async (callOptions?: CallOptions) => {
+      const values = await device.getProps([name], callOptions);
+      return checkResult(values[name], spec, `property ${key}`, device);
+    };
+
+    const setter = spec.set;
+    if (setter) {
+      wrapper[`set${capitalize(key)}`] = async (
+        value: unknown,
+        callOptions?: CallOptions,
+      ) => {
+        checkParam(value, spec, `value of ${key}`, setter);
+        await device.call(setter, [value], callOptions);
+      };
+    }
+  });
+
+  Object.entries(profile.actions || {}).forEach(([key, action]) => {
+    const specs: readonly ValueSpec[] = action.params || [];
+
+    wrapper[key] = async (...args: unknown[]) => {
+      // Parameters may be followed by call options.
+      if (args.length !== specs.length && args.length !== specs.length + 1) {
+        throw new ValidationError(
+          `Action ${key} expects ${specs.length} parameters, got ${args.length}`,
+          { method: action.method, params: args },
+        );
+      }
+
+      const params = args.slice(0, specs.length);
+      const callOptions = args[specs.length] as CallOptions | undefined;
+      specs.forEach((spec, i) =>
+        checkParam(params[i], spec, `parameter ${i} of ${key}`, action.method),
+      );
+      return device.call(action.method, params, callOptions);
+    };
+  });
+
+  return wrapper as ProfiledDevice<P>;
+}
+
+/**
+ * Returns definition of device models described by the profile.
+ *
+ * @param profile - device profile (use `as const` for profiles in TS files
+ *    which are not passed to `defineDevice` directly)
+ * @returns device definition which wraps `Device` instances into typed objects
+ *
+ * @remarks
+ * Values passed to setters and actions are validated before the call
+ * (`ValidationError`), property values returned by the device are validated
+ * too (`MalformedResponseError`). Definition is registered for the profile
+ * models, so `profileDevice` can find it by the model of the device.
+ */
+export function defineDevice<
+  P extends DeviceProfile<S, N>,
+  S extends string,
+  N extends number,
+>(profile: P): DeviceDefinition<P> {
+  checkProfile(profile);
+
+  const definition: DeviceDefinition<P> = {
+    profile,
+    wrap: (device) => wrap(profile, device),
+    discover: async (params, callOptions) =>
+      wrap(
+        profile,
+        await Device.discover(
+          { model: profile.models[0], ...params },
+          callOptions,
+        ),
+      ),
+  };
+
+  profile.models.forEach((model) =>
+    definitions.set(model, definition as DeviceDefinition<DeviceProfile>),
+  );
+
+  return definition;
+}
+
+/**
+ * Returns profiled wrapper of the device using definition of its model.
+ *
+ * @param device - device
+ * @param callOptions - options of `miIO.info` call
+ * @returns object with methods generated from the profile
+ *
+ * @remarks
+ * Model is requested with `miIO.info`. Throws `ProfileError` if no profile
+ * is defined for the model.
+ */
+export async function profileDevice(
+  device: Device,
+  callOptions?: CallOptions,
+): Promise<ProfiledDevice<DeviceProfile>> {
+  const info = await device.call<[], { model?: string }>(
+    "miIO.info",
+    [],
+    callOptions,
+  );
+  const model = info?.model;
+  const definition = model !== undefined ? definitions.get(model) : undefined;
+
+  if (!definition) {
+    throw new ProfileError(`No profile for model ${model}`, {
+      method: "miIO.info",
+      address: device.address,
+      deviceId: device.id,
+    });
+  }
+
+  return definition.wrap(device);
+}
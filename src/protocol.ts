@@ -1,8 +1,13 @@
 import Packet, { PacketDataRequired } from "./packet";
-import { ProtocolError } from "./errors";
+import { ChecksumError, MalformedResponseError } from "./errors";
 import { hash, encrypt, decrypt } from "./crypto";
 
-export type Request<ParamsType extends Array<unknown>> = {
+/**
+ * Method parameters: positional (miIO) or named (e.g. MIoT `action`).
+ */
+export type Params = Array<unknown> | Record<string, unknown>;
+
+export type Request<ParamsType extends Params> = {
   id: number;
   method: string;
   params?: ParamsType | [];
@@ -60,6 +65,27 @@ class Protocol {
     return packet.length === Packet.HEADER_SIZE;
   }
 
+  /**
+   * Returns handshake response `Packet`.
+   *
+   * @param deviceId - device id
+   * @param timestamp - device timestamp
+   * @param checksum - checksum field (token for unprovisioned devices)
+   * @returns handshake response `Packet`
+   */
+  static packHandshake(
+    deviceId: number,
+    timestamp: number,
+    checksum = Buffer.alloc(Packet.CHECKSUM_SIZE, 0xff),
+  ): Packet {
+    return new Packet({
+      deviceId,
+      timestamp,
+      checksum,
+      data: Buffer.alloc(0),
+    });
+  }
+
   /**
    * Returns ready to send `Packet` for the given `Request`.
    *
@@ -70,7 +96,7 @@ class Protocol {
    * @param timestamp - device timestamp
    * @returns `Packet` for the given `req` and `timestamp`
    */
-  packRequest<ParamsType extends Array<unknown>>(
+  packRequest<ParamsType extends Params>(
     req: Request<ParamsType>,
     timestamp: number,
   ): Packet {
@@ -80,6 +106,71 @@ class Protocol {
       params: req.params || [],
     };
 
+    return this.pack(payload, timestamp);
+  }
+
+  /**
+   * Extracts device reponse from `Packet`.
+   *
+   * @param packet - response `Packet`
+   * @returns `Response` extracted from the given `packet`
+   */
+  unpackResponse<ResultType>(packet: Packet): Response<ResultType> {
+    let response;
+
+    try {
+      response = this.unpack(packet) as Response<ResultType>;
+    } catch (err) {
+      if (err instanceof ChecksumError) {
+        throw err;
+      }
+      throw new MalformedResponseError("Unable to decode response", {
+        cause: err as Error,
+      });
+    }
+
+    if (typeof response !== "object" || response === null) {
+      throw new MalformedResponseError("Response is not an object");
+    }
+
+    return response;
+  }
+
+  /**
+   * Returns ready to send `Packet` for the given `Response`
+   * (device side of the protocol).
+   *
+   * @param res - response
+   * @param timestamp - device timestamp
+   * @returns `Packet` for the given `res` and `timestamp`
+   */
+  packResponse<ResultType>(
+    res: Response<ResultType>,
+    timestamp: number,
+  ): Packet {
+    return this.pack(res, timestamp);
+  }
+
+  /**
+   * Extracts client request from `Packet` (device side of the protocol).
+   *
+   * @param packet - request `Packet`
+   * @returns `Request` extracted from the given `packet`
+   */
+  unpackRequest<ParamsType extends Params>(
+    packet: Packet,
+  ): Request<ParamsType> {
+    return this.unpack(packet) as Request<ParamsType>;
+  }
+
+  /**
+   * Encrypts payload and wraps it into a `Packet`.
+   *
+   * @param payload - JSON payload
+   * @param timestamp - device timestamp
+   * @returns `Packet` with encrypted `payload`
+   */
+  private pack(payload: unknown, timestamp: number): Packet {
     const data = Buffer.from(JSON.stringify(payload) + "\x00");
     const encryptedData = encrypt(this.key, this.iv, data);
 
@@ -94,20 +185,20 @@ class Protocol {
   }
 
   /**
-   * Extracts device reponse from `Packet`.
+   * Validates checksum and decrypts payload of the `Packet`.
    *
-   * @param packet - response `Packet`
-   * @returns `Response` extracted from the given `packet`
+   * @param packet - `Packet` to unpack
+   * @returns JSON payload
    */
-  unpackResponse<ResultType>(packet: Packet): Response<ResultType> {
+  private unpack(packet: Packet): unknown {
     if (!this.validateChecksum(packet)) {
-      throw new ProtocolError("Invalid packet checksum");
+      throw new ChecksumError("Invalid packet checksum (wrong token?)");
     }
 
     const decrypted = decrypt(this.key, this.iv, packet.data);
-    const response = JSON.parse(decrypted.toString());
 
-    return response;
+    // Payload may be terminated with null byte.
+    return JSON.parse(decrypted.toString().replace(/\0+$/, ""));
   }
 
   /**
@@ -0,0 +1,237 @@
+import { QueueError } from "./errors";
+import { AbortSignalLike, abortReason } from "./abort";
+
+export type QueueOptions = {
+  concurrency?: number;
+  interval?: number;
+  maxLength?: number;
+  timeout?: number;
+};
+
+type Entry = {
+  task: () => Promise<unknown>;
+  priority: number;
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timer | null;
+  signal?: AbortSignalLike;
+  onAbort?: () => void;
+};
+
+class RequestQueue {
+  static DEFAULT_OPTIONS: Required<QueueOptions> = {
+    concurrency: 1,
+    interval: 0,
+    maxLength: Infinity,
+    timeout: 0,
+  };
+
+  private options: Required<QueueOptions>;
+  private waiting: Entry[];
+  private running: Set<Entry>;
+  private lastStartedAt: number;
+  private intervalTimer: NodeJS.Timer | null;
+
+  /**
+   * Represents a priority queue of requests to a single device.
+   *
+   * @param options - queue options
+   * @param options.concurrency - max number of requests in flight
+   * @param options.interval - min time in milliseconds between request starts
+   * @param options.maxLength - max number of waiting requests
+   * @param options.timeout - max time in milliseconds request may wait in queue (0 - no limit)
+   */
+  constructor(options?: QueueOptions) {
+    this.options = { ...RequestQueue.DEFAULT_OPTIONS, ...options };
+    this.waiting = [];
+    this.running = new Set();
+    this.lastStartedAt = 0;
+    this.intervalTimer = null;
+  }
+
+  /**
+   * Returns number of waiting requests.
+   *
+   * @returns number of requests which are not started yet
+   */
+  get length(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Returns number of requests in flight.
+   *
+   * @returns number of started but not finished requests
+   */
+  get pending(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Adds task to the queue.
+   *
+   * @param task - asynchronous function to run
+   * @param priority - task priority (tasks with higher priority run first)
+   * @param signal - abort signal (removes waiting task from the queue)
+   * @returns `Promise` with result of `task`
+   */
+  push<T>(
+    task: () => Promise<T>,
+    priority = 0,
+    signal?: AbortSignalLike,
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    if (this.waiting.length >= this.options.maxLength) {
+      return Promise.reject(new QueueError("Queue is full"));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const entry: Entry = {
+        task,
+        priority,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        timer: null,
+        signal,
+      };
+
+      if (this.options.timeout) {
+        entry.timer = setTimeout(() => {
+          this.remove(entry);
+          reject(new QueueError("Queue timeout"));
+        }, this.options.timeout);
+      }
+
+      if (signal) {
+        entry.onAbort = () => {
+          this.remove(entry);
+          reject(abortReason(signal));
+        };
+        signal.addEventListener("abort", entry.onAbort);
+      }
+
+      // Keep queue sorted by priority, FIFO for equal priorities.
+      const index = this.waiting.findIndex((e) => e.priority < priority);
+      if (index === -1) {
+        this.waiting.push(entry);
+      } else {
+        this.waiting.splice(index, 0, entry);
+      }
+
+      this.next();
+    });
+  }
+
+  /**
+   * Rejects all waiting and running tasks.
+   *
+   * @param err - rejection reason
+   *
+   * @remarks
+   * Running tasks are not interrupted, their results are just ignored.
+   */
+  clear(err: Error): void {
+    const entries = [...this.waiting, ...this.running];
+
+    this.waiting = [];
+    this.running.clear();
+
+    if (this.intervalTimer) {
+      clearTimeout(this.intervalTimer);
+      this.intervalTimer = null;
+    }
+
+    entries.forEach((entry) => {
+      this.release(entry);
+      entry.reject(err);
+    });
+  }
+
+  /**
+   * Removes entry from waiting list.
+   *
+   * @param entry - entry to remove
+   */
+  private remove(entry: Entry): void {
+    const index = this.waiting.indexOf(entry);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+    }
+    this.release(entry);
+  }
+
+  /**
+   * Clears timer and abort listener of the entry.
+   *
+   * @param entry - entry to release
+   */
+  private release(entry: Entry): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    if (entry.signal && entry.onAbort) {
+      entry.signal.removeEventListener("abort", entry.onAbort);
+      entry.onAbort = undefined;
+    }
+  }
+
+  /**
+   * Starts next tasks if concurrency and interval limits allow.
+   */
+  private next(): void {
+    if (this.intervalTimer) {
+      return;
+    }
+
+    while (
+      this.waiting.length > 0 &&
+      this.running.size < this.options.concurrency
+    ) {
+      const wait = this.lastStartedAt + this.options.interval - Date.now();
+
+      if (wait > 0) {
+        this.intervalTimer = setTimeout(() => {
+          this.intervalTimer = null;
+          this.next();
+        }, wait);
+        return;
+      }
+
+      const entry = this.waiting.shift() as Entry;
+      this.start(entry);
+    }
+  }
+
+  /**
+   * Runs the task of the entry.
+   *
+   * @param entry - entry to run
+   */
+  private start(entry: Entry): void {
+    // Running task handles abort signal by itself.
+    this.release(entry);
+
+    this.running.add(entry);
+    this.lastStartedAt = Date.now();
+
+    const finish = (): boolean => {
+      // Entry is absent if queue was cleared while task was running.
+      const found = this.running.delete(entry);
+      this.next();
+      return found;
+    };
+
+    Promise.resolve()
+      .then(entry.task)
+      .then(
+        (result) => finish() && entry.resolve(result),
+        (err) => finish() && entry.reject(err),
+      );
+  }
+}
+
+export default RequestQueue;
@@ -0,0 +1,206 @@
+import { promises as fs } from "fs";
+import Packet from "./packet";
+import { SocketError, ValidationError } from "./errors";
+import { AbortSignalLike, throwIfAborted } from "./abort";
+import { Transport, ParseFunc, MatchFunc, MessageListener } from "./transport";
+
+/**
+ * Recorded request and the response which matched it (hex encoded).
+ */
+export type Exchange = {
+  request: string;
+  response: string;
+};
+
+export type Fixture = {
+  version: number;
+  exchanges: Exchange[];
+};
+
+const FIXTURE_VERSION = 1;
+
+export class RecordingTransport implements Transport {
+  private transport: Transport;
+  private path: string;
+  private exchanges: Exchange[];
+
+  /**
+   * Changes device address of the underlying transport (defined only if
+   * the underlying transport supports address change).
+   */
+  setAddress?: (address: string) => void;
+
+  /**
+   * Represents a `Transport` which records every request and its
+   * response to the fixture file.
+   *
+   * @param transport - transport used to communicate with the device
+   * @param path - path to fixture file
+   */
+  constructor(transport: Transport, path: string) {
+    this.transport = transport;
+    this.path = path;
+    this.exchanges = [];
+
+    if (transport.setAddress) {
+      this.setAddress = (address) => transport.setAddress?.(address);
+    }
+  }
+
+  /**
+   * Passes messages which did not match any pending request
+   * to the listener (messages are not recorded).
+   *
+   * @param listener - message listener
+   */
+  listen(listener: MessageListener): void {
+    this.transport.listen?.(listener);
+  }
+
+  /**
+   * Sends data using underlying transport and records matched response.
+   *
+   * @param data - data to send
+   * @param parse - parse function
+   * @param match - match function (checks if response matches the request)
+   * @param timeout - response timeout
+   * @param signal - abort signal
+   * @returns `Promise` which will be resolved when matched response come or
+   *    rejected in case of error, timeout or abort
+   */
+  async send<ResponseType>(
+    data: Buffer,
+    parse: ParseFunc<ResponseType>,
+    match: MatchFunc<ResponseType>,
+    timeout?: number,
+    signal?: AbortSignalLike,
+  ): Promise<ResponseType> {
+    const { msg, parsed } = await this.transport.send(
+      data,
+      (msg: Buffer) => ({ msg, parsed: parse(msg) }),
+      ({ parsed }) => match(parsed),
+      timeout,
+      signal,
+    );
+
+    this.exchanges.push({
+      request: data.toString("hex"),
+      response: msg.toString("hex"),
+    });
+
+    return parsed;
+  }
+
+  /**
+   * Writes recorded exchanges to the fixture file.
+   */
+  async save(): Promise<void> {
+    const fixture: Fixture = {
+      version: FIXTURE_VERSION,
+      exchanges: this.exchanges,
+    };
+    await fs.writeFile(this.path, JSON.stringify(fixture, null, 2) + "\n");
+  }
+
+  /**
+   * Saves fixture and closes underlying transport.
+   */
+  async close(): Promise<void> {
+    await this.save();
+    await this.transport.close();
+  }
+}
+
+export class ReplayTransport implements Transport {
+  readonly replayed = true;
+
+  private exchanges: Exchange[];
+  private position: number;
+
+  /**
+   * Represents a `Transport` which plays back recorded responses
+   * in the order they were recorded.
+   *
+   * @param fixture - recorded fixture
+   *
+   * @remarks
+   * Requests contain random ids, so responses are not matched against
+   * requests: recording has already established which response answers
+   * each request. Only device id in the request header is checked to detect
+   * that the playback diverged from the recording.
+   */
+  constructor(fixture: Fixture) {
+    if (fixture.version !== FIXTURE_VERSION) {
+      throw new ValidationError(
+        `Unsupported fixture version: ${fixture.version}`,
+      );
+    }
+    this.exchanges = fixture.exchanges;
+    this.position = 0;
+  }
+
+  /**
+   * Loads fixture file and returns `ReplayTransport` for it.
+   *
+   * @param path - path to fixture file
+   * @returns `ReplayTransport` instance
+   */
+  static async load(path: string): Promise<ReplayTransport> {
+    const content = await fs.readFile(path, "utf8");
+    return new ReplayTransport(JSON.parse(content));
+  }
+
+  /**
+   * Returns next recorded response.
+   *
+   * @param data - data to send
+   * @param parse - parse function
+   * @param match - match function (not used)
+   * @param timeout - response timeout (not used)
+   * @param signal - abort signal
+   * @returns `Promise` with parsed recorded response
+   */
+  async send<ResponseType>(
+    data: Buffer,
+    parse: ParseFunc<ResponseType>,
+    match?: MatchFunc<ResponseType>,
+    timeout?: number,
+    signal?: AbortSignalLike,
+  ): Promise<ResponseType> {
+    throwIfAborted(signal);
+
+    const exchange = this.exchanges[this.position];
+
+    if (!exchange) {
+      throw new SocketError("No more recorded exchanges");
+    }
+
+    const request = Buffer.from(exchange.request, "hex");
+
+    if (Packet.peekDeviceId(request) !== Packet.peekDeviceId(data)) {
+      throw new SocketError(
+        `Request #${this.position} does not match the recorded one`,
+      );
+    }
+
+    this.position++;
+
+    return parse(Buffer.from(exchange.response, "hex"));
+  }
+
+  /**
+   * Checks if all recorded exchanges were played back.
+   *
+   * @returns `true` if there are no more recorded exchanges
+   */
+  isDone(): boolean {
+    return this.position >= this.exchanges.length;
+  }
+
+  /**
+   * Closes transport.
+   */
+  async close(): Promise<void> {
+    this.position = this.exchanges.length;
+  }
+}
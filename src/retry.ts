@@ -0,0 +1,152 @@
+import { SocketError, TimeoutError, HandshakeError, ErrorCode } from "./errors";
+import { sleep } from "./utils";
+import { AbortSignalLike, throwIfAborted } from "./abort";
+
+/**
+ * Decides if failed attempt should be retried.
+ */
+export type ShouldRetryFunc = (err: Error, attempt: number) => boolean;
+
+export type RetryPolicy = {
+  attempts?: number;
+  delay?: number;
+  factor?: number;
+  maxDelay?: number;
+  jitter?: number;
+  deadline?: number;
+  shouldRetry?: ShouldRetryFunc;
+};
+
+/**
+ * Checks if error is transient (timeout or socket error).
+ *
+ * @param err - error to check
+ * @returns `true` if operation failed with `err` may succeed next time
+ *
+ * @remarks
+ * Device errors, checksum errors (wrong token) and errors of closed
+ * transport are never transient.
+ */
+export function isTransient(err: Error): boolean {
+  if (err instanceof TimeoutError) {
+    return true;
+  }
+  return err instanceof SocketError && err.code !== ErrorCode.CLOSED;
+}
+
+/**
+ * Checks if call failed because device doesn't respond.
+ *
+ * @param err - call error
+ * @returns `true` for transient errors and handshakes failed with them
+ */
+export function isUnreachable(err: unknown): boolean {
+  if (err instanceof HandshakeError) {
+    return !err.cause || isTransient(err.cause);
+  }
+  return err instanceof Error && isTransient(err);
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  attempts: 3,
+  delay: 1000,
+  factor: 2,
+  maxDelay: 10000,
+  jitter: 0.1,
+  deadline: 0,
+  shouldRetry: isTransient,
+};
+
+/**
+ * Merges retry policies ignoring `undefined` fields.
+ *
+ * @param policies - policies in order of increasing precedence
+ * @returns policy with all fields set (missing ones are taken from `DEFAULT_RETRY_POLICY`)
+ */
+export function mergePolicies(
+  ...policies: (RetryPolicy | undefined)[]
+): Required<RetryPolicy> {
+  const merged = { ...DEFAULT_RETRY_POLICY };
+  for (const policy of policies) {
+    for (const [key, value] of Object.entries(policy || {})) {
+      if (value !== undefined) {
+        Object.assign(merged, { [key]: value });
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Returns delay before the next attempt.
+ *
+ * @param policy - retry policy
+ * @param attempt - number of failed attempt (starting from 1)
+ * @returns delay in milliseconds
+ */
+export function backoff(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+): number {
+  const delay = Math.min(
+    policy.delay * policy.factor ** (attempt - 1),
+    policy.maxDelay,
+  );
+  const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + jitter));
+}
+
+/**
+ * Retries the specified asynchronous function according to the policy.
+ *
+ * @param attemptFunc - asynchronous function which will be retried
+ *    (receives number of the attempt starting from 1)
+ * @param retryPolicy - retry policy
+ * @param retryPolicy.attempts - max number of attempts
+ * @param retryPolicy.delay - delay in milliseconds before the first retry
+ * @param retryPolicy.factor - delay multiplier applied after each retry
+ * @param retryPolicy.maxDelay - max delay in milliseconds between attempts
+ * @param retryPolicy.jitter - random deviation of delay (fraction of delay)
+ * @param retryPolicy.deadline - max total time in milliseconds (0 - no limit)
+ * @param retryPolicy.shouldRetry - predicate which decides if error should be retried
+ * @param signal - abort signal (cancels pending retries)
+ * @returns result of `attemptFunc` in case of success and
+ *    throws the last error if attempts are exhausted or error must not be retried
+ */
+export async function retry<T>(
+  attemptFunc: (attempt: number) => Promise<T>,
+  retryPolicy?: RetryPolicy,
+  signal?: AbortSignalLike,
+): Promise<T> {
+  const policy = mergePolicies(retryPolicy);
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+
+    try {
+      return await attemptFunc(attempt);
+    } catch (err) {
+      if (
+        signal?.aborted ||
+        attempt >= policy.attempts ||
+        !policy.shouldRetry(err as Error, attempt)
+      ) {
+        throw err;
+      }
+
+      const delay = backoff(policy, attempt);
+
+      if (
+        policy.deadline &&
+        Date.now() - startedAt + delay >= policy.deadline
+      ) {
+        throw err;
+      }
+
+      if (delay) {
+        await sleep(delay, signal);
+      }
+    }
+  }
+}
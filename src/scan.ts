@@ -0,0 +1,282 @@
+import dgram from "dgram";
+import net from "net";
+import Device from "./device";
+import Packet from "./packet";
+import Protocol from "./protocol";
+import logger from "./logger";
+import { SocketError, ValidationError } from "./errors";
+import { AbortSignalLike, abortReason, throwIfAborted } from "./abort";
+
+export type ScanOptions = {
+  address?: string;
+  port?: number;
+  timeout?: number;
+  attempts?: number;
+  signal?: AbortSignalLike;
+};
+
+export type ScanResult = {
+  address: string;
+  deviceId: number;
+  timestamp: number;
+  checksum: Buffer;
+  token: string | null;
+};
+
+const DEFAULT_SCAN_OPTIONS = {
+  address: "255.255.255.255",
+  timeout: 3000,
+  attempts: 2,
+};
+
+// Do not allow to scan ranges wider than /16 (65534 hosts).
+const MAX_CIDR_HOSTS = 0xffff;
+
+const log = logger.child({ module: "scan" });
+
+/**
+ * Converts dotted IPv4 address into a number.
+ *
+ * @param ip - IPv4 address
+ * @returns `ip` as unsigned 32-bit integer
+ */
+function ipToInt(ip: string): number {
+  return (
+    ip.split(".").reduce((acc, octet) => (acc << 8) + parseInt(octet), 0) >>> 0
+  );
+}
+
+/**
+ * Converts a number into dotted IPv4 address.
+ *
+ * @param n - unsigned 32-bit integer
+ * @returns `n` as IPv4 address
+ */
+function intToIp(n: number): string {
+  return [24, 16, 8, 0].map((shift) => (n >>> shift) & 0xff).join(".");
+}
+
+/**
+ * Returns list of addresses handshake should be sent to.
+ *
+ * @param address - single IPv4 address (e.g. broadcast) or CIDR range
+ * @returns list of IPv4 addresses
+ *
+ * @remarks
+ * Network and broadcast addresses of the CIDR range are excluded
+ * (except /31 and /32 ranges).
+ */
+function expandAddress(address: string): string[] {
+  const [ip, bits] = address.split("/");
+
+  if (!net.isIPv4(ip)) {
+    throw new ValidationError(`Invalid IPv4 address: "${address}"`);
+  }
+
+  if (bits === undefined) {
+    return [ip];
+  }
+
+  const prefix = Number(bits);
+
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    throw new ValidationError(`Invalid CIDR prefix: "${address}"`);
+  }
+
+  const size = 2 ** (32 - prefix);
+
+  if (size - 2 > MAX_CIDR_HOSTS) {
+    throw new ValidationError(`CIDR range is too wide: "${address}"`);
+  }
+
+  const network = (ipToInt(ip) & (prefix === 0 ? 0 : ~(size - 1))) >>> 0;
+
+  if (size <= 2) {
+    return [...Array(size)].map((_, i) => intToIp(network + i));
+  }
+
+  return [...Array(size - 2)].map((_, i) => intToIp(network + i + 1));
+}
+
+/**
+ * Extracts token from the handshake checksum field.
+ *
+ * @param checksum - checksum field of handshake response
+ * @returns token in hex if device revealed it and `null` otherwise
+ *
+ * @remarks
+ * Provisioned devices fill the checksum field with 0xff or 0x00 bytes,
+ * unprovisioned ones put their token there.
+ */
+export function extractToken(checksum: Buffer): string | null {
+  if (checksum.every((b) => b === 0xff) || checksum.every((b) => b === 0x00)) {
+    return null;
+  }
+  return checksum.toString("hex");
+}
+
+/**
+ * Scans network for miIO devices and yields them as soon as they respond.
+ *
+ * @param scanOptions - scan options
+ * @param scanOptions.address - broadcast address or CIDR range to scan
+ * @param scanOptions.port - device port
+ * @param scanOptions.timeout - time in milliseconds to wait for responses
+ * @param scanOptions.attempts - how many times handshake is sent to each address
+ * @param scanOptions.signal - abort signal (stops scan with `AbortError`)
+ * @returns async iterator of found devices (each device is reported once)
+ */
+export async function* scanIterator(
+  scanOptions?: ScanOptions,
+): AsyncGenerator<ScanResult, void, undefined> {
+  const options = { ...DEFAULT_SCAN_OPTIONS, ...scanOptions };
+  const signal = options.signal;
+
+  throwIfAborted(signal);
+
+  const port = options.port || Device.PORT;
+  const targets = expandAddress(options.address);
+  const requestBuffer = Protocol.HANDSHAKE_PACKET.toBuffer();
+
+  const socket = dgram.createSocket("udp4");
+  const seen = new Set<string>();
+  const found: ScanResult[] = [];
+
+  let finished = false;
+  let error: Error | null = null;
+  let wakeUp: (() => void) | null = null;
+  let timer: NodeJS.Timer | null = null;
+
+  const notify = (): void => {
+    if (wakeUp) {
+      wakeUp();
+      wakeUp = null;
+    }
+  };
+
+  socket.on("message", (msg: Buffer, rinfo: dgram.RemoteInfo) => {
+    let packet;
+
+    try {
+      packet = Packet.fromBuffer(msg);
+    } catch (err) {
+      log.debug("<- invalid packet", {
+        address: rinfo.address,
+        error: String(err),
+      });
+      return;
+    }
+
+    if (!Protocol.isHandshake(packet)) {
+      return;
+    }
+
+    const key = `${rinfo.address}:${packet.deviceId}`;
+
+    if (seen.has(key)) {
+      return;
+    }
+
+    seen.add(key);
+    log.debug("<- handshake", {
+      address: rinfo.address,
+      deviceId: packet.deviceId,
+      timestamp: packet.timestamp,
+    });
+
+    found.push({
+      address: rinfo.address,
+      deviceId: packet.deviceId,
+      timestamp: packet.timestamp,
+      checksum: packet.checksum,
+      token: extractToken(packet.checksum),
+    });
+    notify();
+  });
+
+  socket.on("error", (err: Error) => {
+    error = new SocketError(err.message);
+    notify();
+  });
+
+  const onAbort = (): void => {
+    error = abortReason(signal as AbortSignalLike);
+    notify();
+  };
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    await new Promise<void>((resolve) => socket.bind(() => resolve()));
+    socket.setBroadcast(true);
+
+    for (let attempt = 1; attempt <= options.attempts; attempt++) {
+      for (const target of targets) {
+        throwIfAborted(signal);
+        log.trace("-> handshake", { attempt, address: target });
+        await new Promise<void>((resolve) => {
+          socket.send(requestBuffer, port, target, (err) => {
+            if (err) {
+              log.warn("-> unable to send", {
+                address: target,
+                error: String(err),
+              });
+            }
+            resolve();
+          });
+        });
+      }
+    }
+
+    timer = setTimeout(() => {
+      finished = true;
+      notify();
+    }, options.timeout);
+
+    while (true) {
+      const result = found.shift();
+
+      if (result) {
+        yield result;
+        continue;
+      }
+
+      if (error) {
+        throw error;
+      }
+
+      if (finished) {
+        return;
+      }
+
+      await new Promise<void>((resolve) => {
+        wakeUp = resolve;
+      });
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    await new Promise<void>((resolve) => {
+      try {
+        socket.close(() => resolve());
+      } catch (err) {
+        resolve();
+      }
+    });
+  }
+}
+
+/**
+ * Scans network for miIO devices.
+ *
+ * @param scanOptions - scan options (see `scanIterator`)
+ * @returns list of all devices responded during `scanOptions.timeout`
+ */
+export async function scan(scanOptions?: ScanOptions): Promise<ScanResult[]> {
+  const results = [];
+  for await (const result of scanIterator(scanOptions)) {
+    results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,160 @@
+import { promises as fs } from "fs";
+import { randomString } from "./utils";
+
+/**
+ * Serializable state of the device connection.
+ */
+export type DeviceSession = {
+  address: string;
+  token: string;
+  deviceId: number;
+  timestamp: number;
+  lastSeenAt: number;
+};
+
+/**
+ * Storage of device sessions keyed by device address.
+ */
+export interface SessionStore {
+  get(address: string): Promise<DeviceSession | null>;
+  set(session: DeviceSession): Promise<void>;
+  delete(address: string): Promise<void>;
+}
+
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, DeviceSession>;
+
+  /**
+   * Represents a `SessionStore` which keeps sessions in memory.
+   */
+  constructor() {
+    this.sessions = new Map();
+  }
+
+  /**
+   * Returns session of the device.
+   *
+   * @param address - device IP address
+   * @returns session or `null` if there is no session for `address`
+   */
+  async get(address: string): Promise<DeviceSession | null> {
+    const session = this.sessions.get(address);
+    return session ? { ...session } : null;
+  }
+
+  /**
+   * Saves session of the device.
+   *
+   * @param session - session to save
+   */
+  async set(session: DeviceSession): Promise<void> {
+    this.sessions.set(session.address, { ...session });
+  }
+
+  /**
+   * Deletes session of the device.
+   *
+   * @param address - device IP address
+   */
+  async delete(address: string): Promise<void> {
+    this.sessions.delete(address);
+  }
+}
+
+export class FileSessionStore implements SessionStore {
+  private path: string;
+  private writing: Promise<void>;
+
+  /**
+   * Represents a `SessionStore` which keeps sessions in a JSON file.
+   *
+   * @param path - path to sessions file
+   *
+   * @remarks
+   * File is rewritten atomically (via temporary file) on every change,
+   * writes of the same instance are serialized. File is readable by the owner only.
+   */
+  constructor(path: string) {
+    this.path = path;
+    this.writing = Promise.resolve();
+  }
+
+  /**
+   * Returns session of the device.
+   *
+   * @param address - device IP address
+   * @returns session or `null` if there is no session for `address`
+   */
+  async get(address: string): Promise<DeviceSession | null> {
+    const sessions = await this.read();
+    return sessions[address] || null;
+  }
+
+  /**
+   * Saves session of the device.
+   *
+   * @param session - session to save
+   */
+  set(session: DeviceSession): Promise<void> {
+    return this.update((sessions) => {
+      sessions[session.address] = session;
+    });
+  }
+
+  /**
+   * Deletes session of the device.
+   *
+   * @param address - device IP address
+   */
+  delete(address: string): Promise<void> {
+    return this.update((sessions) => {
+      delete sessions[address];
+    });
+  }
+
+  /**
+   * Reads sessions file.
+   *
+   * @returns sessions by device address (empty if file doesn't exist)
+   */
+  private async read(): Promise<Record<string, DeviceSession>> {
+    let content;
+
+    try {
+      content = await fs.readFile(this.path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw err;
+    }
+
+    return JSON.parse(content);
+  }
+
+  /**
+   * Modifies sessions and writes them to the file.
+   *
+   * @param func - function which modifies sessions in place
+   * @returns `Promise` which will be resolved when file is written
+   */
+  private update(
+    func: (sessions: Record<string, DeviceSession>) => void,
+  ): Promise<void> {
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const sessions = await this.read();
+        func(sessions);
+
+        // Stores of the same process may write the same file concurrently.
+        const tmp = `${this.path}.${process.pid}.${randomString()}.tmp`;
+        // File contains device tokens.
+        await fs.writeFile(tmp, JSON.stringify(sessions, null, 2) + "\n", {
+          mode: 0o600,
+        });
+        await fs.rename(tmp, this.path);
+      });
+    return this.writing;
+  }
+}
@@ -1,7 +1,15 @@
 import dgram from "dgram";
-import { SocketError } from "./errors";
-
-class Socket {
+import { SocketError, ErrorCode } from "./errors";
+import { AbortSignalLike } from "./abort";
+import {
+  Transport,
+  ParseFunc,
+  MatchFunc,
+  MessageListener,
+  PendingRequests,
+} from "./transport";
+
+class Socket implements Transport {
   ip: string;
   port: number;
   version: number;
@@ -9,9 +17,11 @@ class Socket {
   socket: dgram.Socket;
 
   private connectPromise: Promise<void> | null;
+  private pending: PendingRequests;
+  private listener: MessageListener | null;
 
   /**
-   * Represents a UDP socket.
+   * Represents a UDP socket (default `Transport`).
    *
    * @param ip - IP address
    * @param port - port
@@ -22,6 +32,24 @@ class Socket {
     this.socket = dgram.createSocket("udp4");
     this.version = parseInt(process.versions.node.split(".")[0]);
     this.connectPromise = null;
+    this.pending = new PendingRequests();
+    this.listener = null;
+
+    // Socket is listened persistently, so messages which are not responses
+    // to the pending requests are not lost.
+    this.socket.on("message", (msg: Buffer, rinfo: dgram.RemoteInfo) => {
+      if (this.pending.dispatch(msg)) {
+        return;
+      }
+      // Not connected socket receives messages from any address.
+      if (this.listener && rinfo.address === this.ip) {
+        this.listener(msg);
+      }
+    });
+
+    this.socket.on("error", (err: Error) => {
+      this.pending.fail(new SocketError(err.message));
+    });
   }
 
   /**
@@ -73,14 +101,16 @@ class Socket {
    * @param parse - parse function
    * @param match - match function (checks if response matches the request)
    * @param timeout - response timeout
+   * @param signal - abort signal
    * @returns `Promise` which will be resolved when matched response come or
-   *    rejected in case of error or timeout
+   *    rejected in case of error, timeout or abort
    */
   async send<ResponseType>(
     data: Buffer,
-    parse: (msg: Buffer) => ResponseType,
-    match: (data: ResponseType) => boolean,
+    parse: ParseFunc<ResponseType>,
+    match: MatchFunc<ResponseType>,
     timeout = 5000,
+    signal?: AbortSignalLike,
   ): Promise<ResponseType> {
     // `connect` function was added in v12 of NodeJS.
     // https://nodejs.org/api/dgram.html#dgram_socket_connect_port_address_callback
@@ -90,68 +120,64 @@ class Socket {
       }
     }
 
-    let timer: NodeJS.Timer;
-    let onMessage: (msg: Buffer) => void, onError: (err: Error) => void;
-
-    const done = (onFinish: () => void): void => {
-      if (timer) {
-        clearTimeout(timer);
-      }
-      this.socket.removeListener("message", onMessage);
-      this.socket.removeListener("error", onError);
-      onFinish();
-    };
-
-    const resultPromise: Promise<ResponseType> = new Promise(
-      (resolve, reject) => {
-        onMessage = (msg: Buffer): void => {
-          try {
-            const parsed = parse(msg);
-            if (match(parsed)) {
-              done(() => resolve(parsed));
+    return this.pending.wait(
+      parse,
+      match,
+      timeout,
+      () =>
+        new Promise((resolve, reject) => {
+          const callback = (err: Error | null) => {
+            if (err) {
+              reject(new SocketError(err.message));
+            } else {
+              resolve();
             }
-          } catch (err) {
-            done(() => reject(err));
-            return;
-          }
-        };
-
-        onError = (err: Error): void => {
-          done(() => reject(new SocketError(err.message)));
-        };
-
-        if (timeout) {
-          timer = setTimeout(() => {
-            done(() => reject(new SocketError("Timeout")));
-          }, timeout);
-        }
-
-        this.socket.on("message", onMessage);
-        this.socket.on("error", onError);
-
-        const callback = (err: Error | null) => {
-          if (err) {
-            onError(err);
+          };
+
+          if (this.version >= 12) {
+            this.socket.send(data, callback);
+          } else {
+            // Older NodeJS versions don't have "connected UDP socket",
+            // so we need to pass address and port.
+            this.socket.send(data, this.port, this.ip, callback);
           }
-        };
-
-        if (this.version >= 12) {
-          this.socket.send(data, callback);
-        } else {
-          // Older NodeJS versions don't have "connected UDP socket",
-          // so we need to pass address and port.
-          this.socket.send(data, this.port, this.ip, callback);
-        }
-      },
+        }),
+      signal,
     );
+  }
 
-    return resultPromise;
+  /**
+   * Sets listener for messages which did not match any pending request.
+   *
+   * @param listener - message listener
+   */
+  listen(listener: MessageListener): void {
+    this.listener = listener;
+  }
+
+  /**
+   * Changes IP address the socket sends data to.
+   *
+   * @param ip - new IP address
+   */
+  setAddress(ip: string): void {
+    this.ip = ip;
+    // Socket will be connected to the new address on the next send.
+    if (this.version >= 12 && this.isConnected()) {
+      this.socket.disconnect();
+    }
   }
 
   /**
    * Closes socket.
    */
   close(): Promise<void> {
+    this.pending.fail(
+      new SocketError("Socket is closed", {
+        code: ErrorCode.CLOSED,
+      }),
+    );
+
     return new Promise((resolve) => {
       try {
         this.socket.close(() => {
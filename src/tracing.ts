@@ -0,0 +1,118 @@
+import {
+  InstrumentationEvent,
+  InstrumentationListener,
+} from "./instrumentation";
+
+type AttributeValue = string | number | boolean;
+
+/**
+ * Subset of OpenTelemetry `Span` used by the tracing hook.
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  addEvent(name: string, attributes?: Record<string, AttributeValue>): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Subset of OpenTelemetry `Tracer` used by the tracing hook.
+ */
+export interface TracerLike {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, AttributeValue> },
+  ): SpanLike;
+}
+
+// Values of OpenTelemetry `SpanStatusCode`.
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * Returns attributes of the event.
+ *
+ * @param event - instrumentation event
+ * @returns span attributes
+ */
+function eventAttributes(
+  event: InstrumentationEvent,
+): Record<string, AttributeValue> {
+  const attributes: Record<string, AttributeValue> = {
+    "net.peer.ip": event.address,
+  };
+
+  if (event.deviceId !== undefined) {
+    attributes["miio.device_id"] = event.deviceId;
+  }
+  if (event.method !== undefined) {
+    attributes["miio.method"] = event.method;
+  }
+  if (event.attempt !== undefined) {
+    attributes["miio.attempt"] = event.attempt;
+  }
+  if (event.duration !== undefined) {
+    attributes["miio.duration_ms"] = event.duration;
+  }
+
+  return attributes;
+}
+
+/**
+ * Returns instrumentation listener which records calls and handshakes
+ * as OpenTelemetry spans.
+ *
+ * @param tracer - OpenTelemetry tracer (e.g. `trace.getTracer("miio")`)
+ * @returns listener to pass to `instrument`
+ *
+ * @remarks
+ * Each call and handshake is a span (`miio.call` and `miio.handshake`),
+ * attempts, retries, timeouts and checksum failures are span events.
+ */
+export function createTracingListener(
+  tracer: TracerLike,
+): InstrumentationListener {
+  const spans = new Map<string, SpanLike>();
+
+  return (event: InstrumentationEvent): void => {
+    switch (event.type) {
+      case "call.start":
+      case "handshake.start": {
+        const name =
+          event.type === "call.start" ? "miio.call" : "miio.handshake";
+        spans.set(
+          event.id,
+          tracer.startSpan(name, { attributes: eventAttributes(event) }),
+        );
+        return;
+      }
+
+      case "call.end":
+      case "handshake.end": {
+        const span = spans.get(event.id);
+        if (!span) {
+          return;
+        }
+        spans.delete(event.id);
+
+        if (event.deviceId !== undefined) {
+          span.setAttribute("miio.device_id", event.deviceId);
+        }
+        if (event.attempt !== undefined) {
+          span.setAttribute("miio.attempts", event.attempt);
+        }
+        if (event.error) {
+          span.setAttribute("error.type", event.error.name);
+          span.setStatus({ code: STATUS_ERROR, message: event.error.message });
+        } else {
+          span.setStatus({ code: STATUS_OK });
+        }
+        span.end();
+        return;
+      }
+
+      default:
+        spans.get(event.id)?.addEvent(event.type, eventAttributes(event));
+    }
+  };
+}
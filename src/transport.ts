@@ -0,0 +1,191 @@
+import { TimeoutError } from "./errors";
+import { AbortSignalLike, abortReason } from "./abort";
+
+/**
+ * Parses binary message received from the device.
+ */
+export type ParseFunc<ResponseType> = (msg: Buffer) => ResponseType;
+
+/**
+ * Checks if parsed message is a response to the sent request.
+ */
+export type MatchFunc<ResponseType> = (data: ResponseType) => boolean;
+
+/**
+ * Receives messages which did not match any pending request.
+ */
+export type MessageListener = (msg: Buffer) => void;
+
+/**
+ * Represents a way to exchange binary messages with a device.
+ */
+export interface Transport {
+  /**
+   * Sends data to the device and returns matched response wrapped in `Promise`.
+   *
+   * @param data - data to send
+   * @param parse - parse function
+   * @param match - match function (checks if response matches the request)
+   * @param timeout - response timeout
+   * @param signal - abort signal
+   * @returns `Promise` which will be resolved when matched response come or
+   *    rejected in case of error, timeout or abort
+   */
+  send<ResponseType>(
+    data: Buffer,
+    parse: ParseFunc<ResponseType>,
+    match: MatchFunc<ResponseType>,
+    timeout?: number,
+    signal?: AbortSignalLike,
+  ): Promise<ResponseType>;
+
+  /**
+   * Sets listener for messages which did not match any pending request
+   * (device-pushed messages, late replies).
+   *
+   * @param listener - message listener
+   */
+  listen?(listener: MessageListener): void;
+
+  /**
+   * Changes device address (e.g. when device moved to another IP).
+   *
+   * @param address - new device IP address
+   */
+  setAddress?(address: string): void;
+
+  /**
+   * Responses are played back from a recording (device timestamps don't
+   * follow local time).
+   */
+  readonly replayed?: boolean;
+
+  /**
+   * Releases resources associated with the transport.
+   */
+  close(): Promise<void>;
+}
+
+type Pending = {
+  parse: ParseFunc<unknown>;
+  match: MatchFunc<unknown>;
+  resolve: (data: unknown) => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * Represents requests waiting for responses.
+ */
+export class PendingRequests {
+  private pending: Set<Pending>;
+
+  constructor() {
+    this.pending = new Set();
+  }
+
+  /**
+   * Returns number of pending requests.
+   *
+   * @returns number of requests waiting for response
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Registers request and sends it.
+   *
+   * @param parse - parse function
+   * @param match - match function (checks if response matches the request)
+   * @param timeout - response timeout
+   * @param send - function which sends the request
+   * @param signal - abort signal
+   * @returns `Promise` which will be resolved when matched response come or
+   *    rejected in case of error, timeout or abort
+   */
+  wait<ResponseType>(
+    parse: ParseFunc<ResponseType>,
+    match: MatchFunc<ResponseType>,
+    timeout: number,
+    send: () => Promise<void>,
+    signal?: AbortSignalLike,
+  ): Promise<ResponseType> {
+    return new Promise<ResponseType>((resolve, reject) => {
+      let timer: NodeJS.Timer | null = null;
+
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+
+      const onAbort = (): void => {
+        pending.reject(abortReason(signal as AbortSignalLike));
+      };
+
+      const done = (onFinish: () => void): void => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+        this.pending.delete(pending);
+        onFinish();
+      };
+
+      const pending: Pending = {
+        parse,
+        match: match as MatchFunc<unknown>,
+        resolve: (parsed) => done(() => resolve(parsed as ResponseType)),
+        reject: (err) => done(() => reject(err)),
+      };
+
+      if (timeout) {
+        timer = setTimeout(() => {
+          pending.reject(new TimeoutError("Timeout"));
+        }, timeout);
+      }
+
+      signal?.addEventListener("abort", onAbort);
+
+      this.pending.add(pending);
+      send().catch((err) => pending.reject(err));
+    });
+  }
+
+  /**
+   * Passes message to the pending requests.
+   *
+   * @param msg - incoming message
+   * @returns `true` if message matched any pending request
+   *
+   * @remarks
+   * Request is rejected if its parse function throws.
+   */
+  dispatch(msg: Buffer): boolean {
+    for (const pending of this.pending) {
+      let parsed;
+
+      try {
+        parsed = pending.parse(msg);
+        if (!pending.match(parsed)) {
+          continue;
+        }
+      } catch (err) {
+        pending.reject(err as Error);
+        return true;
+      }
+
+      pending.resolve(parsed);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Rejects all pending requests.
+   *
+   * @param err - rejection reason
+   */
+  fail(err: Error): void {
+    this.pending.forEach((pending) => pending.reject(err));
+  }
+}
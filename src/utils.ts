@@ -1,3 +1,5 @@
+import { AbortSignalLike, abortReason, throwIfAborted } from "./abort";
+
 /**
  * Returns random interger between 0 and 4294967295.
  *
@@ -21,47 +23,37 @@ export function randomString(n = 8): string {
  * Sleeps for specified time.
  *
  * @param ms - duration in milliseconds
- * @returns `Promise` which will be resolved after `ms` milliseconds
+ * @param signal - abort signal
+ * @returns `Promise` which will be resolved after `ms` milliseconds or
+ *    rejected as soon as `signal` is aborted
  */
-export async function sleep(ms: number): Promise<void> {
-  await new Promise((resolve) => setTimeout(resolve, ms));
+export async function sleep(
+  ms: number,
+  signal?: AbortSignalLike,
+): Promise<void> {
+  throwIfAborted(signal);
+
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(abortReason(signal as AbortSignalLike));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort);
+  });
 }
 
 /**
- * Retries the specified asynchronous function the given amount of times in case of fail.
+ * Returns monotonic time (not affected by system clock changes).
  *
- * @param attemptFunc - asynchronous function which will be retried
- * @param attempts - retries count
- * @param delay - delay in milliseconds between retries
- * @returns result of `attemptFunc` in case of success and
- *    throws error if `attemptFunc` fails `attempts` times
+ * @returns time in milliseconds since an arbitrary point in the past
  */
-export async function retry<T>(
-  attemptFunc: () => Promise<T>,
-  attempts = 3,
-  delay = 1000,
-): Promise<T> {
-  let remaining = attempts;
-
-  async function makeAttempt(): Promise<T> {
-    const onError = async (err: Error): Promise<T> => {
-      if (remaining === 0) {
-        throw err;
-      }
-
-      if (delay) {
-        await sleep(delay);
-      }
-
-      return makeAttempt();
-    };
-
-    if (remaining > 0) {
-      remaining--;
-    }
-
-    return attemptFunc().catch(onError);
-  }
-
-  return makeAttempt();
+export function monotonicNow(): number {
+  const [seconds, nanoseconds] = process.hrtime();
+  return seconds * 1000 + nanoseconds / 1e6;
 }